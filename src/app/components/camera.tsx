@@ -6,6 +6,8 @@ import { useThree, useFrame } from '@react-three/fiber'
 import { useRef, useEffect } from 'react'
 import * as THREE from 'three'
 import { CameraControllerProps } from "../types/types"
+import { traverseVoxels } from "../world/raycast"
+import { getFlightDuration, planCameraPath } from "../utils/camera-path"
 
 function easeInOutCubic(t: number): number {
   return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
@@ -17,6 +19,8 @@ function CameraController({
   onComplete,
   preferredDistance = 8,
   transitionData,
+  viewPose,
+  onCameraChange,
 }: CameraControllerProps) {
   const { camera } = useThree()
   const controlsRef = useRef<any>(null)
@@ -28,6 +32,8 @@ function CameraController({
     duration: 1.5,
     startPosition: new THREE.Vector3(),
     endPosition: new THREE.Vector3(),
+    // Percorso curvo che evita i blocchi pieni tra partenza e arrivo
+    path: null as THREE.Curve<THREE.Vector3> | null,
     startQuaternion: new THREE.Quaternion(),
     endQuaternion: new THREE.Quaternion(),
     endLookAt: new THREE.Vector3(),
@@ -64,46 +70,62 @@ function CameraController({
       new THREE.Vector3(-preferredDistance, 0, -preferredDistance).normalize().multiplyScalar(preferredDistance), // Nord-Ovest
     ]
 
+    // Linea di vista: nessun blocco pieno tra la camera e il target (celle esatte, anche in grotta)
+    const hasClearView = (candidatePos: THREE.Vector3): boolean => {
+      const tx = Math.round(target.x)
+      const ty = Math.round(target.y)
+      const tz = Math.round(target.z)
+      return !traverseVoxels(candidatePos, target, (x, y, z) => {
+        // Non controllare il blocco target stesso
+        if (x === tx && y === ty && z === tz) return false
+        return !!world.getBlock(x, y, z)
+      })
+    }
+
+    const isGoodSpot = (candidatePos: THREE.Vector3) => !checkCameraCollision(candidatePos) && hasClearView(candidatePos)
+
     // Altezze da provare
     const heights = [3, 6, 10, 15, 20]
 
     for (const height of heights) {
       for (const direction of directions) {
         const candidatePos = target.clone().add(direction).add(new THREE.Vector3(0, height, 0))
-        
-        if (!checkCameraCollision(candidatePos)) {
-          // Verifica linea di vista verso il target
-          const distance = candidatePos.distanceTo(target)
-          const steps = Math.ceil(distance * 2)
-          let clearView = true
-          
-          for (let i = 1; i < steps; i++) {
-            const t = i / steps
-            const checkPoint = candidatePos.clone().lerp(target, t)
-            const checkX = Math.round(checkPoint.x)
-            const checkY = Math.round(checkPoint.y)
-            const checkZ = Math.round(checkPoint.z)
-            
-            // Non controllare il blocco target stesso
-            if (checkX === Math.round(target.x) && 
-                checkY === Math.round(target.y) && 
-                checkZ === Math.round(target.z)) {
-              continue
-            }
-            
-            if (world.getBlock(checkX, checkY, checkZ)) {
-              clearView = false
-              break
-            }
-          }
-          
-          if (clearView) {
+        if (isGoodSpot(candidatePos)) {
+          return candidatePos
+        }
+      }
+    }
+
+    // In grotta o sotto una sporgenza: ci si avvicina restando bassi
+    for (const distance of [preferredDistance / 2, 3]) {
+      for (const height of [0, 1, 2]) {
+        for (const direction of directions) {
+          const candidatePos = target.clone()
+            .add(direction.clone().setLength(distance))
+            .add(new THREE.Vector3(0, height, 0))
+          if (isGoodSpot(candidatePos)) {
             return candidatePos
           }
         }
       }
     }
 
+    // Ultima possibilità: appena fuori da una faccia libera del blocco
+    const faces = [
+      new THREE.Vector3(0, 1, 0),
+      new THREE.Vector3(0, 0, 1),
+      new THREE.Vector3(0, 0, -1),
+      new THREE.Vector3(1, 0, 0),
+      new THREE.Vector3(-1, 0, 0),
+      new THREE.Vector3(0, -1, 0),
+    ]
+    for (const face of faces) {
+      const candidatePos = target.clone().addScaledVector(face, 1.5)
+      if (isGoodSpot(candidatePos)) {
+        return candidatePos
+      }
+    }
+
     // Fallback: posizione sicura molto in alto
     return target.clone().add(new THREE.Vector3(0, 25, 5))
   }
@@ -140,31 +162,57 @@ function CameraController({
     }
   }, [transitionData, camera])
 
+  // Prepara l'animazione dalla posizione attuale verso una nuova vista
+  const startAnimation = (endPosition: THREE.Vector3, endLookAt: THREE.Vector3) => {
+    const anim = animationRef.current
+
+    anim.active = true
+    anim.progress = 0
+    anim.startPosition.copy(camera.position)
+    anim.endPosition.copy(endPosition)
+    anim.startQuaternion.copy(camera.quaternion)
+    anim.endLookAt.copy(endLookAt)
+
+    const world = voxelWorldRef.current
+    anim.path = world
+      ? planCameraPath(anim.startPosition, anim.endPosition, (x, y, z) => !!world.getBlock(x, y, z), world.getTerrainConfig().maxHeight)
+      : new THREE.LineCurve3(anim.startPosition.clone(), anim.endPosition.clone())
+    // Più lontano si va, più dura il volo
+    anim.duration = getFlightDuration(anim.path)
+
+    // Calcola quaternion finale per guardare il target
+    const tempLookAtMatrix = new THREE.Matrix4().lookAt(
+      anim.endPosition,
+      anim.endLookAt,
+      camera.up
+    )
+    anim.endQuaternion.setFromRotationMatrix(tempLookAtMatrix)
+
+    controlsRef.current.enabled = false
+  }
+
   // Inizia animazione verso target
   useEffect(() => {
     if (lookAtTarget && voxelWorldRef.current && controlsRef.current) {
-      const anim = animationRef.current
-      const idealPosition = findIdealSpot(lookAtTarget)
-
-      anim.active = true
-      anim.progress = 0
-      anim.startPosition.copy(camera.position)
-      anim.endPosition.copy(idealPosition)
-      anim.startQuaternion.copy(camera.quaternion)
-      anim.endLookAt.copy(lookAtTarget)
-
-      // Calcola quaternion finale per guardare il target
-      const tempLookAtMatrix = new THREE.Matrix4().lookAt(
-        anim.endPosition,
-        anim.endLookAt,
-        camera.up
-      )
-      anim.endQuaternion.setFromRotationMatrix(tempLookAtMatrix)
-
-      controlsRef.current.enabled = false
+      startAnimation(findIdealSpot(lookAtTarget), lookAtTarget)
     }
   }, [lookAtTarget, voxelWorldRef, camera, preferredDistance])
 
+  // Inizia animazione verso una vista esplicita (es. link condiviso)
+  useEffect(() => {
+    if (viewPose && controlsRef.current) {
+      startAnimation(viewPose.position, viewPose.target)
+    }
+  }, [viewPose, camera])
+
+  const handleControlsEnd = () => {
+    if (!controlsRef.current || animationRef.current.active) return
+    onCameraChange?.({
+      position: camera.position.clone(),
+      target: controlsRef.current.target.clone()
+    })
+  }
+
   // Animazione frame per frame
   useFrame((state, delta) => {
     const anim = animationRef.current
@@ -173,8 +221,8 @@ function CameraController({
     anim.progress = Math.min(anim.progress + delta / anim.duration, 1)
     const easedProgress = easeInOutCubic(anim.progress)
 
-    // Interpolazione posizione e rotazione
-    camera.position.lerpVectors(anim.startPosition, anim.endPosition, easedProgress)
+    // Posizione lungo il percorso (a velocità costante, poi addolcita) e rotazione
+    anim.path?.getPointAt(easedProgress, camera.position)
     camera.quaternion.slerpQuaternions(anim.startQuaternion, anim.endQuaternion, easedProgress)
 
     if (anim.progress >= 1) {
@@ -190,6 +238,10 @@ function CameraController({
       
       // Salva la nuova posizione come valida
       previousValidPosition.current.copy(anim.endPosition)
+      onCameraChange?.({
+        position: anim.endPosition.clone(),
+        target: anim.endLookAt.clone()
+      })
       onComplete()
     }
   })
@@ -198,6 +250,7 @@ function CameraController({
     <OrbitControls
       ref={controlsRef}
       makeDefault
+      onEnd={handleControlsEnd}
       enablePan={true}
       enableZoom={true}
       enableRotate={true}
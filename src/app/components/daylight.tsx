@@ -0,0 +1,75 @@
+// daylight.tsx
+'use client'
+
+import { Sky } from '@react-three/drei'
+import { useFrame } from '@react-three/fiber'
+import { useEffect, useMemo, useRef } from 'react'
+import * as THREE from 'three'
+import { DayNightCycleProps } from '../types/types'
+import { getDaylight } from '../utils/daylight'
+
+// Distanza della luce dal punto osservato e mezza ampiezza dell'area con ombre
+const LIGHT_DISTANCE = 120
+const SHADOW_EXTENT = 64
+const SHADOW_MAP_SIZE = 2048
+
+// Cielo, luce ambiente e luce direzionale con ombre, tutti guidati dall'ora del giorno
+function DayNightCycle({ timeOfDay }: DayNightCycleProps) {
+  const lightRef = useRef<THREE.DirectionalLight>(null)
+  const ambientRef = useRef<THREE.AmbientLight>(null)
+  const daylight = useMemo(() => getDaylight(timeOfDay), [timeOfDay])
+  const focus = useMemo(() => new THREE.Vector3(), [])
+
+  useEffect(() => {
+    const light = lightRef.current
+    if (!light) return
+
+    const camera = light.shadow.camera
+    camera.left = -SHADOW_EXTENT
+    camera.right = SHADOW_EXTENT
+    camera.top = SHADOW_EXTENT
+    camera.bottom = -SHADOW_EXTENT
+    camera.near = 1
+    camera.far = LIGHT_DISTANCE * 2
+    camera.updateProjectionMatrix()
+  }, [])
+
+  useEffect(() => {
+    const light = lightRef.current
+    const ambient = ambientRef.current
+    if (!light || !ambient) return
+
+    light.color.copy(daylight.lightColor)
+    light.intensity = daylight.lightIntensity
+    ambient.color.copy(daylight.ambientColor)
+    ambient.intensity = daylight.ambientIntensity
+  }, [daylight])
+
+  // La luce segue il punto osservato, così le ombre coprono sempre i chunk vicini
+  useFrame((state) => {
+    const light = lightRef.current
+    if (!light) return
+
+    const controls = state.controls as { target?: THREE.Vector3 } | null
+    focus.copy(controls?.target instanceof THREE.Vector3 ? controls.target : state.camera.position)
+    light.target.position.copy(focus)
+    light.position.copy(focus).addScaledVector(daylight.lightDirection, LIGHT_DISTANCE)
+    light.target.updateMatrixWorld()
+  })
+
+  return (
+    <>
+      <Sky sunPosition={daylight.sunPosition} />
+      <ambientLight ref={ambientRef} />
+      <directionalLight
+        ref={lightRef}
+        castShadow
+        shadow-mapSize={[SHADOW_MAP_SIZE, SHADOW_MAP_SIZE]}
+        shadow-bias={-0.0005}
+        shadow-normalBias={0.05}
+      />
+    </>
+  )
+}
+
+export default DayNightCycle
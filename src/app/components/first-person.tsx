@@ -0,0 +1,149 @@
+// first-person.tsx
+'use client'
+
+import { useThree, useFrame } from '@react-three/fiber'
+import { useRef, useEffect } from 'react'
+import * as THREE from 'three'
+import { FirstPersonControllerProps } from '../types/types'
+import { EYE_HEIGHT, PhysicsWorld, createPlayerBody, stepPlayer } from '../world/physics'
+
+// Sensibilità del mouse in radianti per pixel
+const LOOK_SENSITIVITY = 0.0022
+const MAX_PITCH = Math.PI / 2 - 0.01
+// Oltre questo intervallo (es. scheda in background) la fisica non recupera il tempo perso
+const MAX_FRAME_TIME = 0.1
+// Margine sopra l'altezza massima del terreno per alberi e costruzioni
+const SPAWN_SCAN_MARGIN = 16
+// Caduti fuori dal mondo (es. in un chunk non ancora caricato) si torna al punto di partenza
+const FALL_LIMIT = -16
+
+const MOVE_KEYS: Record<string, [number, number]> = {
+  KeyW: [0, 1],
+  KeyS: [0, -1],
+  KeyA: [-1, 0],
+  KeyD: [1, 0],
+}
+
+// Visita a piedi: WASD, mouse con pointer lock, spazio per saltare o risalire in acqua, shift per correre
+function FirstPersonController({ voxelWorldRef, onExit, onLockChange }: FirstPersonControllerProps) {
+  const { camera, gl } = useThree()
+  const bodyRef = useRef(createPlayerBody(camera.position.x, camera.position.y - EYE_HEIGHT, camera.position.z))
+  const spawnRef = useRef(camera.position.clone().setY(camera.position.y - EYE_HEIGHT))
+  const keysRef = useRef(new Set<string>())
+  const lookRef = useRef(new THREE.Euler(0, 0, 0, 'YXZ'))
+
+  // Si parte sul terreno sotto la camera, guardando nella stessa direzione
+  useEffect(() => {
+    lookRef.current.setFromQuaternion(camera.quaternion, 'YXZ')
+    lookRef.current.z = 0
+
+    const world = voxelWorldRef.current
+    if (!world) return
+    const x = Math.round(camera.position.x)
+    const z = Math.round(camera.position.z)
+    for (let y = world.getTerrainConfig().maxHeight + SPAWN_SCAN_MARGIN; y >= 0; y--) {
+      if (world.getBlock(x, y, z)) {
+        spawnRef.current.set(x, y + 0.5, z)
+        bodyRef.current = createPlayerBody(x, y + 0.5, z)
+        break
+      }
+    }
+  }, [camera, voxelWorldRef])
+
+  // Alla chiusura la camera orbitale riprende guardando avanti
+  useEffect(() => {
+    return () => {
+      const direction = new THREE.Vector3()
+      camera.getWorldDirection(direction)
+      onExit?.({
+        position: camera.position.clone(),
+        target: camera.position.clone().addScaledVector(direction, 8),
+      })
+    }
+  }, [camera])
+
+  useEffect(() => {
+    const canvas = gl.domElement
+
+    const handleClick = () => {
+      if (document.pointerLockElement !== canvas) canvas.requestPointerLock()
+    }
+    const handleLockChange = () => {
+      const locked = document.pointerLockElement === canvas
+      if (!locked) keysRef.current.clear()
+      onLockChange?.(locked)
+    }
+    const handleMouseMove = (event: MouseEvent) => {
+      if (document.pointerLockElement !== canvas) return
+      const look = lookRef.current
+      look.y -= event.movementX * LOOK_SENSITIVITY
+      look.x = THREE.MathUtils.clamp(look.x - event.movementY * LOOK_SENSITIVITY, -MAX_PITCH, MAX_PITCH)
+    }
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (document.pointerLockElement !== canvas) return
+      keysRef.current.add(event.code)
+      if (event.code === 'Space') event.preventDefault()
+    }
+    const handleKeyUp = (event: KeyboardEvent) => keysRef.current.delete(event.code)
+
+    canvas.addEventListener('click', handleClick)
+    document.addEventListener('pointerlockchange', handleLockChange)
+    document.addEventListener('mousemove', handleMouseMove)
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    return () => {
+      canvas.removeEventListener('click', handleClick)
+      document.removeEventListener('pointerlockchange', handleLockChange)
+      document.removeEventListener('mousemove', handleMouseMove)
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      if (document.pointerLockElement === canvas) document.exitPointerLock()
+    }
+  }, [gl])
+
+  useFrame((state, delta) => {
+    const world = voxelWorldRef.current
+    if (!world) return
+
+    // Direzione di movimento relativa allo sguardo, solo sul piano orizzontale
+    const keys = keysRef.current
+    let strafe = 0
+    let forward = 0
+    keys.forEach(code => {
+      const move = MOVE_KEYS[code]
+      if (move) {
+        strafe += move[0]
+        forward += move[1]
+      }
+    })
+    const yaw = lookRef.current.y
+    const length = Math.hypot(strafe, forward) || 1
+    const moveX = (strafe * Math.cos(yaw) - forward * Math.sin(yaw)) / length
+    const moveZ = (-strafe * Math.sin(yaw) - forward * Math.cos(yaw)) / length
+
+    const physicsWorld: PhysicsWorld = {
+      isSolid: (x, y, z) => !!world.getBlock(x, y, z),
+      isWater: (x, y, z) => world.isWater(x, y, z),
+    }
+    const body = bodyRef.current
+    stepPlayer(body, {
+      moveX,
+      moveZ,
+      jump: keys.has('Space'),
+      sprint: keys.has('ShiftLeft') || keys.has('ShiftRight'),
+    }, physicsWorld, Math.min(delta, MAX_FRAME_TIME))
+
+    if (body.position.y < FALL_LIMIT) {
+      const spawn = spawnRef.current
+      bodyRef.current = createPlayerBody(spawn.x, spawn.y, spawn.z)
+      return
+    }
+
+    camera.position.set(body.position.x, body.position.y + EYE_HEIGHT, body.position.z)
+    camera.quaternion.setFromEuler(lookRef.current)
+  })
+
+  return null
+}
+
+export default FirstPersonController
@@ -3,50 +3,159 @@
 
 import { Suspense, useRef, useState, useEffect, useCallback } from 'react'
 import { Canvas, useThree, useFrame } from '@react-three/fiber'
-import { Sky } from '@react-three/drei'
 import * as THREE from 'three'
 import CameraController from './camera'
+import DayNightCycle from './daylight'
+import FirstPersonController from './first-person'
+import SignOverlay from './sign-overlay'
 import { Welcome } from './welcome'
-import { Block, VoxelWorldRef, SignData } from '../types/types'
+import { Block, BlockPointerInfo, VoxelWorldRef, SignData, CameraPose, WorldUrlState, SavedWorld } from '../types/types'
 import { VoxelWorld } from './voxel-words'
+import { readWorldUrlState, writeWorldUrlState } from '../utils/url-state'
+import { deleteWorld, listWorlds } from '../utils/world-storage'
+import { hashSeed } from '../utils/random'
+import { DEFAULT_TIME_OF_DAY, getRealTimeOfDay } from '../utils/daylight'
+import { getSignViewPose, getTourPause, orderSignTour } from '../utils/sign-tour'
+import { BLOCK_COLORS, DEFAULT_TERRAIN_CONFIG, TERRAIN_PRESETS, TerrainConfig, isSameTerrainConfig } from '../world/terrain'
+import { ModelFormat } from '../world/exporter'
+
+const BLOCK_TYPE_OPTIONS = [
+  { value: 'grass', label: 'Erba' },
+  { value: 'dirt', label: 'Terra' },
+  { value: 'stone', label: 'Pietra' },
+  { value: 'sand', label: 'Sabbia' },
+  { value: 'snow', label: 'Neve' },
+  { value: 'rock', label: 'Roccia' },
+  { value: 'forest_grass', label: 'Erba di bosco' },
+  { value: 'sandstone', label: 'Arenaria' },
+  { value: 'mud', label: 'Fango' },
+  { value: 'clay', label: 'Argilla' },
+  { value: 'ice', label: 'Ghiaccio' },
+  { value: 'wood', label: 'Legno' },
+  { value: 'leaves', label: 'Foglie' },
+  { value: 'cactus', label: 'Cactus' },
+  { value: 'cobblestone', label: 'Ciottoli' },
+  { value: 'water', label: 'Acqua' },
+]
+
+// Aggiornamento dell'ora in modalità tempo reale (ms)
+const REAL_TIME_INTERVAL = 30000
+
+function formatTimeOfDay(hours: number): string {
+  const minutes = Math.floor(hours * 60) % (24 * 60)
+  return `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`
+}
+
+const TERRAIN_PRESET_OPTIONS = [
+  { value: 'default', label: 'Classico' },
+  { value: 'islands', label: 'Isole' },
+  { value: 'alpine', label: 'Alpino' },
+  { value: 'flatlands', label: 'Pianure' },
+]
+
+const TERRAIN_FIELDS: { key: keyof TerrainConfig, label: string, min: number, max: number, step: number }[] = [
+  { key: 'worldSize', label: 'Area visibile', min: 64, max: 256, step: 16 },
+  { key: 'maxHeight', label: 'Altezza massima', min: 16, max: 96, step: 1 },
+  { key: 'waterLevel', label: 'Livello del mare', min: 0, max: 64, step: 1 },
+  { key: 'beachHeight', label: 'Quota spiagge', min: 0, max: 64, step: 1 },
+  { key: 'rockHeight', label: 'Quota roccia', min: 0, max: 96, step: 1 },
+  { key: 'snowHeight', label: 'Quota neve', min: 0, max: 96, step: 1 },
+  { key: 'noiseScale', label: 'Scala rumore', min: 5, max: 120, step: 1 },
+  { key: 'octaves', label: 'Ottave', min: 1, max: 6, step: 1 },
+  { key: 'lacunarity', label: 'Lacunarità', min: 1, max: 4, step: 0.1 },
+  { key: 'persistence', label: 'Persistenza', min: 0.1, max: 1, step: 0.05 },
+  { key: 'terrainOffset', label: 'Offset', min: -20, max: 20, step: 1 },
+  { key: 'caveDensity', label: 'Grotte', min: 0, max: 1, step: 0.05 },
+  { key: 'overhangStrength', label: 'Sporgenze', min: 0, max: 1, step: 0.05 },
+]
+
+// Attesa dopo l'ultima modifica di un parametro prima di rigenerare (ms)
+const TERRAIN_APPLY_DELAY = 400
+
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
 
 function AutoOrbitCamera({ isActive, onTransitionStart }: { isActive: boolean, onTransitionStart?: (position: THREE.Vector3, target: THREE.Vector3) => void }) {
   const { camera } = useThree()
   const orbitRef = useRef({ angle: 0, radius: 150, height: 80 })
+  const wasActiveRef = useRef(isActive)
 
   useFrame((state, delta) => {
     if (isActive) {
+      wasActiveRef.current = true
       orbitRef.current.angle += delta * 0.1
       const x = Math.cos(orbitRef.current.angle) * orbitRef.current.radius
       const z = Math.sin(orbitRef.current.angle) * orbitRef.current.radius
       camera.position.set(x, orbitRef.current.height, z)
       camera.lookAt(0, 0, 0)
-    } else if (onTransitionStart) {
-      onTransitionStart(camera.position.clone(), new THREE.Vector3(0, 0, 0))
+    } else if (wasActiveRef.current) {
+      // Notifica la fine dell'orbita una sola volta
+      wasActiveRef.current = false
+      onTransitionStart?.(camera.position.clone(), new THREE.Vector3(0, 0, 0))
     }
   })
 
   return null
 }
 
-function BlockOutlineEffect({ block }: { block: Block | null }) {
+function BlockOutlineEffect({ block, outlineId = 'selection', color = 0xcccccc, pulse = true }: {
+  block: Block | null
+  outlineId?: string
+  color?: string | number
+  pulse?: boolean
+}) {
   useFrame((state) => {
     if (block) {
-      const intensity = (Math.sin(state.clock.elapsedTime * 3) + 1) * 0.4 + 0.2
-      block.setOutline(0xcccccc, intensity)
+      const intensity = pulse ? (Math.sin(state.clock.elapsedTime * 3) + 1) * 0.4 + 0.2 : 0.3
+      block.setOutline(color, intensity, outlineId)
     }
   })
 
   useEffect(() => {
-    return () => block?.removeOutline()
-  }, [block])
+    return () => block?.removeOutline(outlineId)
+  }, [block, outlineId])
 
   return null
 }
 
+// Anteprima trasparente del blocco da piazzare (o da rimuovere)
+function BuildPreview({ position, color }: { position: [number, number, number], color: string | number }) {
+  return (
+    <mesh position={position} renderOrder={2}>
+      <boxGeometry args={[1.01, 1.01, 1.01]} />
+      <meshBasicMaterial color={color} transparent opacity={0.45} depthWrite={false} />
+    </mesh>
+  )
+}
+
 export default function Scene() {
   const voxelWorldRef = useRef<VoxelWorldRef>(null)
   const [selectedBlock, setSelectedBlock] = useState<Block | null>(null)
+  const [hoveredBlock, setHoveredBlock] = useState<Block | null>(null)
+  const [hoverInfo, setHoverInfo] = useState<BlockPointerInfo | null>(null)
+  const [buildMode, setBuildMode] = useState(false)
+  const [buildType, setBuildType] = useState('stone')
+  const [isShiftHeld, setIsShiftHeld] = useState(false)
+  const [savedWorlds, setSavedWorlds] = useState<SavedWorld[] | null>(null)
+  const [worldFileError, setWorldFileError] = useState<string | null>(null)
+  const [showModelExport, setShowModelExport] = useState(false)
+  const [modelFormat, setModelFormat] = useState<ModelFormat>('glb')
+  const [exportSigns, setExportSigns] = useState(true)
+  const [exportCorners, setExportCorners] = useState<({ x: number; y: number; z: number } | null)[]>([null, null])
+  const [isExportingModel, setIsExportingModel] = useState(false)
+  const [showTerrainPanel, setShowTerrainPanel] = useState(false)
+  const [terrainDraft, setTerrainDraft] = useState<TerrainConfig>(DEFAULT_TERRAIN_CONFIG)
+  const terrainTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const [timeOfDay, setTimeOfDay] = useState(DEFAULT_TIME_OF_DAY)
+  const [isRealTime, setIsRealTime] = useState(false)
+  const [isWalking, setIsWalking] = useState(false)
+  const [isPointerLocked, setIsPointerLocked] = useState(false)
   const [previousBlock, setPreviousBlock] = useState<Block | null>(null)
   const [cameraTarget, setCameraTarget] = useState<THREE.Vector3 | null>(null)
   const [isAnimating, setIsAnimating] = useState(false)
@@ -56,18 +165,55 @@ export default function Scene() {
     startPosition: THREE.Vector3
     startTarget: THREE.Vector3
   } | null>(null)
+  const [cameraPose, setCameraPose] = useState<CameraPose | null>(null)
+  // Tour guidato dei cartelli: tappe in ordine di visita e tappa corrente
+  const [tour, setTour] = useState<{ stops: SignData[], index: number } | null>(null)
+  const [isTourPlaying, setIsTourPlaying] = useState(false)
+  // Cartello aperto nella vista di lettura HTML
+  const [openSign, setOpenSign] = useState<SignData | null>(null)
+  // Chi apre un cartello è la scena 3D: alla chiusura il focus torna al canvas
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  // Stato letto dal link condiviso: la vista viene applicata a mondo caricato
+  const [sharedState] = useState<WorldUrlState>(readWorldUrlState)
+  const urlStateRef = useRef<WorldUrlState>({ ...sharedState })
+  const pendingViewRef = useRef<WorldUrlState | null>(
+    sharedState.camera || sharedState.block ? sharedState : null
+  )
 
   // Handlers consolidati
-  const handleRegenerate = useCallback(() => {
+  const handleRegenerate = useCallback((seed?: number) => {
     if (!voxelWorldRef.current) return
     
-    voxelWorldRef.current.regenerate()
+    voxelWorldRef.current.regenerate(seed)
+    setSavedWorlds(null)
     setSelectedBlock(null)
     setPreviousBlock(null)
     setCameraTarget(null)
+    setCameraPose(null)
     setIsWorldLoaded(false)
     setHasStartedJourney(false)
     setCameraTransitionData(null)
+    setTour(null)
+    setIsTourPlaying(false)
+    setOpenSign(null)
+    pendingViewRef.current = null
+  }, [])
+
+  const handleSeedChange = useCallback((seed: number) => {
+    const current = urlStateRef.current
+    // Un mondo diverso invalida la vista e la selezione salvate
+    if (current.seed === undefined || hashSeed(current.seed) !== seed) {
+      urlStateRef.current = { seed }
+    } else {
+      urlStateRef.current = { ...current, seed }
+    }
+    writeWorldUrlState(urlStateRef.current)
+  }, [])
+
+  const handleCameraChange = useCallback((pose: CameraPose) => {
+    urlStateRef.current = { ...urlStateRef.current, camera: pose }
+    writeWorldUrlState(urlStateRef.current)
   }, [])
 
   const handleGetSeed = useCallback(() => {
@@ -76,6 +222,88 @@ export default function Scene() {
     }
   }, [])
 
+  // Pannello dei mondi salvati: aperto mostra l'elenco aggiornato
+  const handleToggleSavedWorlds = useCallback(() => {
+    if (savedWorlds) {
+      setSavedWorlds(null)
+      return
+    }
+    listWorlds()
+      .then(setSavedWorlds)
+      .catch(error => console.error('Lettura dei mondi salvati fallita:', error))
+  }, [savedWorlds])
+
+  const handleDeleteWorld = useCallback((seed: number) => {
+    deleteWorld(seed)
+      .then(listWorlds)
+      .then(setSavedWorlds)
+      .catch(error => console.error('Eliminazione del mondo salvato fallita:', error))
+  }, [])
+
+  const handleExportWorld = useCallback((format: 'json' | 'binary') => {
+    if (!voxelWorldRef.current) return
+
+    const seed = voxelWorldRef.current.getSeed()
+    const data = format === 'json' ? voxelWorldRef.current.exportWorld('json') : voxelWorldRef.current.exportWorld('binary')
+    const blob = new Blob([data as BlobPart], { type: format === 'json' ? 'application/json' : 'application/octet-stream' })
+    downloadBlob(blob, `mondo-${seed}.${format === 'json' ? 'json' : 'vxw'}`)
+  }, [])
+
+  // Esportazione 3D: senza angoli esporta tutti i chunk caricati
+  const handleExportModel = useCallback(() => {
+    if (!voxelWorldRef.current || isExportingModel) return
+
+    const [a, b] = exportCorners
+    const bounds = a && b ? {
+      min: { x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), z: Math.min(a.z, b.z) },
+      max: { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y), z: Math.max(a.z, b.z) }
+    } : undefined
+
+    setIsExportingModel(true)
+    voxelWorldRef.current.exportModel({ format: modelFormat, bounds, includeSigns: exportSigns })
+      .then(files => files.forEach(file => downloadBlob(file.blob, file.name)))
+      .catch(error => console.error('Esportazione del modello fallita:', error))
+      .finally(() => setIsExportingModel(false))
+  }, [exportCorners, exportSigns, isExportingModel, modelFormat])
+
+  const handleSetExportCorner = useCallback((corner: 0 | 1) => {
+    const position = selectedBlock?.getPosition() ?? null
+    setExportCorners(prev => corner === 0 ? [position, prev[1]] : [prev[0], position])
+  }, [selectedBlock])
+
+  const handleImportWorld = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !voxelWorldRef.current) return
+
+    file.arrayBuffer()
+      .then(buffer => {
+        voxelWorldRef.current?.importWorld(buffer)
+        setWorldFileError(null)
+        setSelectedBlock(null)
+        setPreviousBlock(null)
+        setCameraTarget(null)
+        setCameraPose(null)
+        setSavedWorlds(null)
+      })
+      .catch(error => setWorldFileError(error instanceof Error ? error.message : String(error)))
+  }, [])
+
+  // Pannello del terreno: rigenera lo stesso seed con i nuovi parametri
+  const handleTerrainChange = useCallback((terrain: TerrainConfig) => {
+    setTerrainDraft(terrain)
+    if (terrainTimerRef.current) clearTimeout(terrainTimerRef.current)
+    terrainTimerRef.current = setTimeout(() => {
+      terrainTimerRef.current = null
+      if (!voxelWorldRef.current) return
+
+      voxelWorldRef.current.regenerate(voxelWorldRef.current.getSeed(), terrain)
+      setSelectedBlock(null)
+      setPreviousBlock(null)
+      setExportCorners([null, null])
+    }, TERRAIN_APPLY_DELAY)
+  }, [])
+
   const handleAddSign = useCallback(() => {
     if (!voxelWorldRef.current) return
     
@@ -96,8 +324,23 @@ export default function Scene() {
     voxelWorldRef.current.addSign(signData)
   }, [])
 
-  const handleBlockClick = useCallback((block: Block | null) => {
-    if (!hasStartedJourney || isAnimating) return
+  const handleBlockClick = useCallback((block: Block | null, info?: BlockPointerInfo) => {
+    // A piedi il click serve solo a catturare il mouse
+    if (!hasStartedJourney || isAnimating || isWalking) return
+
+    // Modalità costruzione: click piazza sulla faccia, shift/click destro rimuove
+    if (buildMode) {
+      if (!block || !info) return
+      if (info.button === 2 || info.shiftKey) {
+        block.remove()
+      } else if (info.button === 0) {
+        const { x, y, z } = info.adjacent
+        voxelWorldRef.current?.addBlock(x, y, z, buildType)
+      }
+      return
+    }
+
+    if (info && info.button !== 0) return
 
     // Pulisci outline precedente
     if (previousBlock && previousBlock !== block) {
@@ -112,11 +355,66 @@ export default function Scene() {
       setCameraTarget(new THREE.Vector3(pos.x, pos.y, pos.z))
       setIsAnimating(true)
     }
-  }, [hasStartedJourney, isAnimating, previousBlock])
+  }, [hasStartedJourney, isAnimating, isWalking, previousBlock, buildMode, buildType])
+
+  const handleBlockHover = useCallback((block: Block | null, info?: BlockPointerInfo) => {
+    setHoveredBlock(block)
+    setHoverInfo(info ?? null)
+  }, [])
+
+  const handleToggleBuildMode = useCallback(() => {
+    setBuildMode(prev => !prev)
+    setSelectedBlock(null)
+  }, [])
+
+  const handleToggleWalking = useCallback(() => {
+    setIsWalking(prev => !prev)
+    setTour(null)
+    setIsTourPlaying(false)
+    setOpenSign(null)
+    setBuildMode(false)
+    setSelectedBlock(null)
+    setCameraTarget(null)
+    setIsAnimating(false)
+    // La transizione iniziale non va ripetuta quando la camera orbitale torna attiva
+    setCameraTransitionData(null)
+  }, [])
+
+  // Uscendo dalla camminata la camera orbitale riparte dalla vista in prima persona
+  const handleWalkExit = useCallback((pose: CameraPose) => {
+    setIsPointerLocked(false)
+    setCameraPose(pose)
+  }, [])
+
+  const handleStartTour = useCallback(() => {
+    if (!voxelWorldRef.current) return
+
+    const stops = orderSignTour(voxelWorldRef.current.getSigns())
+    if (stops.length === 0) return
+
+    setBuildMode(false)
+    setSelectedBlock(null)
+    setTour({ stops, index: 0 })
+    setIsTourPlaying(true)
+  }, [])
+
+  const handleTourStep = useCallback((step: number) => {
+    setTour(current => {
+      if (!current) return current
+      const index = THREE.MathUtils.clamp(current.index + step, 0, current.stops.length - 1)
+      return index === current.index ? current : { ...current, index }
+    })
+  }, [])
+
+  const handleExitTour = useCallback(() => {
+    setTour(null)
+    setIsTourPlaying(false)
+  }, [])
 
   const handleAnimationComplete = useCallback(() => {
     setIsAnimating(false)
     setCameraTarget(null)
+    setCameraPose(null)
   }, [])
 
   const handleBlockAction = useCallback((action: 'remove' | 'change' | 'color', value?: string) => {
@@ -142,11 +440,20 @@ export default function Scene() {
     }
   }, [isWorldLoaded])
 
-  const handleSignCameraMove = useCallback((target: THREE.Vector3) => {
-    // I cartelli ora non muovono automaticamente la camera
-    // L'utente può decidere di muoversi manualmente verso il cartello
-    console.log('Cartello cliccato alla posizione:', target)
-  }, [])
+  // Click su un cartello: la camera vola davanti al pannello e si apre la vista di lettura
+  const handleSignInteract = useCallback((sign: SignData) => {
+    const world = voxelWorldRef.current
+    if (!hasStartedJourney || isWalking || buildMode || !world) return
+
+    setIsTourPlaying(false)
+    setSelectedBlock(null)
+    setCameraTarget(null)
+    setCameraPose(getSignViewPose(sign, (x, y, z) => !!world.getBlock(x, y, z)))
+    setIsAnimating(true)
+    setOpenSign(sign)
+  }, [hasStartedJourney, isWalking, buildMode])
+
+  const handleCloseSign = useCallback(() => setOpenSign(null), [])
 
   const handleTransitionStart = useCallback((position: THREE.Vector3, target: THREE.Vector3) => {
     setCameraTransitionData({
@@ -155,6 +462,135 @@ export default function Scene() {
     })
   }, [])
 
+  // Link condiviso: seleziona il blocco e salta l'intro a mondo caricato
+  useEffect(() => {
+    const pending = pendingViewRef.current
+    if (!pending || !isWorldLoaded || !voxelWorldRef.current) return
+
+    if (pending.block) {
+      const { x, y, z } = pending.block
+      const block = voxelWorldRef.current.getBlock(x, y, z)
+      setSelectedBlock(block)
+      setPreviousBlock(block)
+    }
+    setHasStartedJourney(true)
+  }, [isWorldLoaded])
+
+  // Link condiviso: vola verso la vista salvata appena termina l'orbita
+  useEffect(() => {
+    const pending = pendingViewRef.current
+    if (!pending || !hasStartedJourney || !cameraTransitionData) return
+
+    pendingViewRef.current = null
+    if (pending.camera) {
+      setCameraPose(pending.camera)
+      setIsAnimating(true)
+    } else if (pending.block) {
+      const { x, y, z } = pending.block
+      setCameraTarget(new THREE.Vector3(x, y, z))
+      setIsAnimating(true)
+    }
+  }, [hasStartedJourney, cameraTransitionData])
+
+  // Aggiorna il blocco selezionato nell'URL
+  useEffect(() => {
+    if (pendingViewRef.current) return
+    urlStateRef.current = { ...urlStateRef.current, block: selectedBlock?.getPosition() }
+    writeWorldUrlState(urlStateRef.current)
+  }, [selectedBlock])
+
+  // Ctrl+Z annulla, Ctrl+Shift+Z (o Ctrl+Y) ripete
+  useEffect(() => {
+    const handleHistoryKeys = (e: KeyboardEvent) => {
+      if (!hasStartedJourney || !voxelWorldRef.current) return
+      if (!(e.ctrlKey || e.metaKey)) return
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault()
+        voxelWorldRef.current.undo()
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        voxelWorldRef.current.redo()
+      }
+    }
+
+    window.addEventListener('keydown', handleHistoryKeys)
+    return () => window.removeEventListener('keydown', handleHistoryKeys)
+  }, [hasStartedJourney])
+
+  // Shift in modalità costruzione mostra l'anteprima di rimozione
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => setIsShiftHeld(e.shiftKey)
+    window.addEventListener('keydown', handleKey)
+    window.addEventListener('keyup', handleKey)
+    return () => {
+      window.removeEventListener('keydown', handleKey)
+      window.removeEventListener('keyup', handleKey)
+    }
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      if (terrainTimerRef.current) clearTimeout(terrainTimerRef.current)
+    }
+  }, [])
+
+  // Tour: a ogni cambio di tappa la camera vola davanti al cartello
+  useEffect(() => {
+    const world = voxelWorldRef.current
+    if (!tour || !world) return
+
+    setCameraTarget(null)
+    setCameraPose(getSignViewPose(tour.stops[tour.index], (x, y, z) => !!world.getBlock(x, y, z)))
+    setIsAnimating(true)
+  }, [tour])
+
+  // Riproduzione automatica: sosta sul cartello, poi la tappa successiva
+  useEffect(() => {
+    if (!tour || !isTourPlaying || isAnimating) return
+
+    const timer = setTimeout(() => {
+      if (tour.index >= tour.stops.length - 1) {
+        setIsTourPlaying(false)
+      } else {
+        setTour({ ...tour, index: tour.index + 1 })
+      }
+    }, getTourPause(tour.stops.length))
+    return () => clearTimeout(timer)
+  }, [tour, isTourPlaying, isAnimating])
+
+  // Frecce per le tappe, spazio per la riproduzione automatica, Esc per uscire
+  useEffect(() => {
+    if (!tour || openSign) return
+    const handleTourKeys = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement) return
+
+      if (e.key === 'ArrowRight') {
+        handleTourStep(1)
+      } else if (e.key === 'ArrowLeft') {
+        handleTourStep(-1)
+      } else if (e.key === ' ') {
+        e.preventDefault()
+        setIsTourPlaying(playing => !playing)
+      } else if (e.key === 'Escape') {
+        handleExitTour()
+      }
+    }
+
+    window.addEventListener('keydown', handleTourKeys)
+    return () => window.removeEventListener('keydown', handleTourKeys)
+  }, [tour, openSign, handleTourStep, handleExitTour])
+
+  // Tempo reale: il sole segue l'orologio del dispositivo
+  useEffect(() => {
+    if (!isRealTime) return
+    setTimeOfDay(getRealTimeOfDay())
+    const interval = setInterval(() => setTimeOfDay(getRealTimeOfDay()), REAL_TIME_INTERVAL)
+    return () => clearInterval(interval)
+  }, [isRealTime])
+
   // Scroll per iniziare il viaggio
   useEffect(() => {
     const handleScroll = (e: WheelEvent) => {
@@ -178,15 +614,143 @@ export default function Scene() {
 
       {hasStartedJourney && (
         <div style={{ position: 'absolute', top: 10, left: 10, zIndex: 1, display: 'flex', gap: '10px' }}>
-          <button onClick={handleRegenerate} style={{ padding: '10px 20px', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+          <button onClick={() => handleRegenerate()} style={{ padding: '10px 20px', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
             Rigenera Mondo
           </button>
           <button onClick={handleGetSeed} style={{ padding: '10px 20px', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
             Mostra Seed
           </button>
+          <button onClick={handleToggleSavedWorlds} style={{ padding: '10px 20px', backgroundColor: savedWorlds ? '#3F51B5' : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+            Mondi Salvati
+          </button>
+          <button onClick={() => setShowTerrainPanel(show => !show)} style={{ padding: '10px 20px', backgroundColor: showTerrainPanel ? '#3F51B5' : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+            Terreno
+          </button>
+          <button onClick={() => setShowModelExport(show => !show)} style={{ padding: '10px 20px', backgroundColor: showModelExport ? '#3F51B5' : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+            Esporta 3D
+          </button>
           <button onClick={handleAddSign} style={{ padding: '10px 20px', backgroundColor: '#FF9800', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
             Aggiungi Cartello
           </button>
+          <button onClick={tour ? handleExitTour : handleStartTour} disabled={isWalking} style={{ padding: '10px 20px', backgroundColor: tour ? '#E91E63' : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+            {tour ? 'Esci dal Tour' : 'Tour Guidato'}
+          </button>
+          <button onClick={handleToggleWalking} style={{ padding: '10px 20px', backgroundColor: isWalking ? '#009688' : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+            {isWalking ? 'Esci dalla Camminata' : 'Cammina'}
+          </button>
+          <button onClick={handleToggleBuildMode} disabled={!!tour} style={{ padding: '10px 20px', backgroundColor: buildMode ? '#9C27B0' : '#607D8B', color: 'white', border: 'none', borderRadius: '4px', cursor: 'pointer' }}>
+            {buildMode ? 'Esci da Costruzione' : 'Costruisci'}
+          </button>
+          {buildMode && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: '10px', backgroundColor: 'rgba(0, 0, 0, 0.6)', color: 'white', padding: '0 12px', borderRadius: '4px', fontFamily: 'monospace', fontSize: '12px' }}>
+              <select value={buildType} onChange={(e) => setBuildType(e.target.value)} style={{ padding: '5px', borderRadius: '3px', fontSize: '12px' }}>
+                {BLOCK_TYPE_OPTIONS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+              <span>Click: piazza · Shift/Click destro: rimuovi</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {savedWorlds && hasStartedJourney && (
+        <div style={{ position: 'absolute', top: 65, right: 10, zIndex: 1, backgroundColor: 'rgba(0, 0, 0, 0.8)', color: 'white', padding: '15px', borderRadius: '4px', fontFamily: 'monospace', minWidth: '250px', maxHeight: '60vh', overflowY: 'auto' }}>
+          <div style={{ marginBottom: '10px' }}><strong>Mondi Salvati</strong></div>
+          <div style={{ display: 'flex', gap: '5px', flexWrap: 'wrap', marginBottom: '10px' }}>
+            <button onClick={() => handleExportWorld('json')} style={{ padding: '5px 10px', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+              Esporta JSON
+            </button>
+            <button onClick={() => handleExportWorld('binary')} style={{ padding: '5px 10px', backgroundColor: '#2196F3', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+              Esporta binario
+            </button>
+            <label style={{ padding: '5px 10px', backgroundColor: '#FF9800', color: 'white', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+              Importa file
+              <input type="file" accept=".json,.vxw" onChange={handleImportWorld} style={{ display: 'none' }} />
+            </label>
+          </div>
+          {worldFileError && <div style={{ color: '#ff8a80', marginBottom: '10px', fontSize: '12px' }}>{worldFileError}</div>}
+          {savedWorlds.length === 0 && <div>Nessun mondo modificato</div>}
+          {savedWorlds.map(world => (
+            <div key={world.seed} style={{ display: 'flex', alignItems: 'center', gap: '8px', marginTop: '8px', fontSize: '12px' }}>
+              <div style={{ flex: 1 }}>
+                <div>Seed {world.seed}</div>
+                <div style={{ opacity: 0.7 }}>{new Date(world.updatedAt).toLocaleString()} · {world.blocks.length} blocchi</div>
+              </div>
+              <button onClick={() => handleRegenerate(world.seed)} style={{ padding: '5px 10px', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+                Carica
+              </button>
+              <button onClick={() => handleDeleteWorld(world.seed)} style={{ padding: '5px 10px', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+                Elimina
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {showTerrainPanel && hasStartedJourney && (
+        <div style={{ position: 'absolute', bottom: 10, left: 10, zIndex: 1, backgroundColor: 'rgba(0, 0, 0, 0.8)', color: 'white', padding: '15px', borderRadius: '4px', fontFamily: 'monospace', fontSize: '12px', minWidth: '280px', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+          <div><strong>Terreno</strong></div>
+          <label>
+            Preset{' '}
+            <select
+              value={Object.keys(TERRAIN_PRESETS).find(name => isSameTerrainConfig(TERRAIN_PRESETS[name], terrainDraft)) ?? ''}
+              onChange={(e) => e.target.value && handleTerrainChange(TERRAIN_PRESETS[e.target.value])}
+              style={{ padding: '3px', borderRadius: '3px', fontSize: '12px' }}
+            >
+              <option value="">Personalizzato</option>
+              {TERRAIN_PRESET_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          {TERRAIN_FIELDS.map(field => (
+            <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+              <span style={{ width: '120px' }}>{field.label}</span>
+              <input
+                type="range"
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={terrainDraft[field.key]}
+                onChange={(e) => handleTerrainChange({ ...terrainDraft, [field.key]: Number(e.target.value) })}
+                style={{ flex: 1 }}
+              />
+              <span style={{ width: '36px', textAlign: 'right' }}>{terrainDraft[field.key]}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {showModelExport && hasStartedJourney && (
+        <div style={{ position: 'absolute', bottom: 10, right: 10, zIndex: 1, backgroundColor: 'rgba(0, 0, 0, 0.8)', color: 'white', padding: '15px', borderRadius: '4px', fontFamily: 'monospace', fontSize: '12px', minWidth: '250px', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          <div><strong>Esporta Modello 3D</strong></div>
+          <label>
+            Formato{' '}
+            <select value={modelFormat} onChange={(e) => setModelFormat(e.target.value as ModelFormat)} style={{ padding: '3px', borderRadius: '3px', fontSize: '12px' }}>
+              <option value="glb">glTF (.glb)</option>
+              <option value="obj">OBJ + MTL</option>
+            </select>
+          </label>
+          <label>
+            <input type="checkbox" checked={exportSigns} onChange={(e) => setExportSigns(e.target.checked)} /> Includi cartelli
+          </label>
+          {([0, 1] as const).map(corner => (
+            <div key={corner} style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <span style={{ flex: 1 }}>
+                Angolo {corner + 1}: {exportCorners[corner] ? `(${exportCorners[corner]!.x}, ${exportCorners[corner]!.y}, ${exportCorners[corner]!.z})` : '—'}
+              </span>
+              <button onClick={() => handleSetExportCorner(corner)} disabled={!selectedBlock && !exportCorners[corner]} style={{ padding: '3px 8px', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+                {selectedBlock ? 'Blocco selezionato' : 'Azzera'}
+              </button>
+            </div>
+          ))}
+          <div style={{ opacity: 0.7 }}>
+            {exportCorners[0] && exportCorners[1] ? 'Solo il box tra i due angoli' : 'Tutti i chunk caricati'}
+          </div>
+          <button onClick={handleExportModel} disabled={isExportingModel} style={{ padding: '5px 10px', backgroundColor: '#4CAF50', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+            {isExportingModel ? 'Esportazione...' : 'Scarica'}
+          </button>
         </div>
       )}
 
@@ -194,6 +758,7 @@ export default function Scene() {
         <div style={{ position: 'absolute', top: 65, left: 10, zIndex: 1, backgroundColor: 'rgba(0, 0, 0, 0.8)', color: 'white', padding: '15px', borderRadius: '4px', fontFamily: 'monospace', minWidth: '250px' }}>
           <div style={{ marginBottom: '10px' }}><strong>Blocco Selezionato</strong></div>
           <div>Tipo: {selectedBlock.getType()}</div>
+          <div>Bioma: {selectedBlock.getBiome()?.label ?? '—'}</div>
           <div>Posizione: ({selectedBlock.getPosition().x}, {selectedBlock.getPosition().y}, {selectedBlock.getPosition().z})</div>
           <div style={{ marginTop: '15px', display: 'flex', gap: '5px', flexWrap: 'wrap' }}>
             <button onClick={() => handleBlockAction('remove')} style={{ padding: '5px 10px', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
@@ -201,52 +766,147 @@ export default function Scene() {
             </button>
             <select onChange={(e) => handleBlockAction('change', e.target.value)} defaultValue={selectedBlock.getType()} style={{ padding: '5px', borderRadius: '3px', fontSize: '12px' }}>
               <option value="">Cambia tipo...</option>
-              <option value="grass">Erba</option>
-              <option value="dirt">Terra</option>
-              <option value="stone">Pietra</option>
-              <option value="sand">Sabbia</option>
-              <option value="snow">Neve</option>
-              <option value="rock">Roccia</option>
+              {BLOCK_TYPE_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
             </select>
             <input type="color" onChange={(e) => handleBlockAction('color', e.target.value)} style={{ width: '40px', height: '28px', border: 'none', borderRadius: '3px', cursor: 'pointer' }} title="Cambia colore" />
           </div>
         </div>
       )}
 
+      {hasStartedJourney && (
+        <div style={{ position: 'absolute', bottom: 10, left: '50%', transform: 'translateX(-50%)', zIndex: 1, display: 'flex', alignItems: 'center', gap: '10px', backgroundColor: 'rgba(0, 0, 0, 0.6)', color: 'white', padding: '8px 12px', borderRadius: '4px', fontFamily: 'monospace', fontSize: '12px' }}>
+          <span>Ora {formatTimeOfDay(timeOfDay)}</span>
+          <input
+            type="range"
+            min={0}
+            max={24}
+            step={0.25}
+            value={timeOfDay}
+            disabled={isRealTime}
+            onChange={(e) => setTimeOfDay(Number(e.target.value) % 24)}
+          />
+          <label style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+            <input type="checkbox" checked={isRealTime} onChange={(e) => setIsRealTime(e.target.checked)} />
+            Tempo reale
+          </label>
+        </div>
+      )}
+
+      {tour && hasStartedJourney && (
+        <div style={{ position: 'absolute', bottom: 60, left: '50%', transform: 'translateX(-50%)', zIndex: 1, display: 'flex', alignItems: 'center', gap: '10px', backgroundColor: 'rgba(0, 0, 0, 0.7)', color: 'white', padding: '8px 12px', borderRadius: '4px', fontFamily: 'monospace', fontSize: '12px' }}>
+          <button onClick={() => handleTourStep(-1)} disabled={tour.index === 0} style={{ padding: '5px 10px', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+            ◀
+          </button>
+          <span>
+            {tour.index + 1}/{tour.stops.length} · {tour.stops[tour.index].content.title}
+          </span>
+          <button onClick={() => handleTourStep(1)} disabled={tour.index === tour.stops.length - 1} style={{ padding: '5px 10px', backgroundColor: '#607D8B', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+            ▶
+          </button>
+          <button onClick={() => setIsTourPlaying(playing => !playing)} style={{ padding: '5px 10px', backgroundColor: isTourPlaying ? '#E91E63' : '#4CAF50', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+            {isTourPlaying ? 'Pausa' : 'Autoplay'}
+          </button>
+          <button onClick={handleExitTour} style={{ padding: '5px 10px', backgroundColor: '#f44336', color: 'white', border: 'none', borderRadius: '3px', cursor: 'pointer', fontSize: '12px' }}>
+            Esci
+          </button>
+        </div>
+      )}
+
+      {isWalking && hasStartedJourney && (
+        <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', color: 'white', fontFamily: 'monospace', fontSize: '14px', pointerEvents: 'none', textAlign: 'center' }}>
+          {isPointerLocked ? '+' : (
+            <div style={{ backgroundColor: 'rgba(0, 0, 0, 0.5)', padding: '10px 20px', borderRadius: '20px' }}>
+              Click per camminare · WASD muovi · Spazio salta/nuota · Shift corri · Esc libera il mouse
+            </div>
+          )}
+        </div>
+      )}
+
+      {openSign && hasStartedJourney && (
+        <SignOverlay sign={openSign} onClose={handleCloseSign} returnFocus={canvasRef.current} />
+      )}
+
       {isAnimating && hasStartedJourney && (
         <div style={{ position: 'absolute', top: '50%', left: '50%', transform: 'translate(-50%, -50%)', color: 'white', backgroundColor: 'rgba(0, 0, 0, 0.5)', padding: '10px 20px', borderRadius: '20px', fontSize: '14px', pointerEvents: 'none' }}>
           Spostamento...
         </div>
       )}
 
-      <Canvas camera={{ position: [150, 80, 150], fov: 75 }} shadows gl={{ antialias: true }}>
+      <Canvas
+        ref={canvasRef}
+        camera={{ position: [150, 80, 150], fov: 75 }}
+        shadows
+        gl={{ antialias: true }}
+        onCreated={({ gl }) => {
+          // Focalizzabile solo da codice, senza contorno
+          gl.domElement.tabIndex = -1
+          gl.domElement.style.outline = 'none'
+        }}
+      >
         <AutoOrbitCamera
           isActive={!hasStartedJourney}
           onTransitionStart={handleTransitionStart}
         />
 
-        <Sky sunPosition={[0.5, 0.8, 0.3]} />
-        <ambientLight intensity={0.4} />
+        <DayNightCycle timeOfDay={timeOfDay} />
 
         <Suspense fallback={null}>
           <VoxelWorld
             ref={voxelWorldRef}
+            initialSeed={sharedState.seed}
+            onSeedChange={handleSeedChange}
+            onTerrainChange={setTerrainDraft}
+            timeOfDay={timeOfDay}
+            targetWater={buildMode}
             onLoadingProgress={handleLoadingProgress}
             onBlockClick={handleBlockClick}
-            onSignCameraMove={handleSignCameraMove}
+            onBlockHover={handleBlockHover}
+            onSignInteract={handleSignInteract}
           />
         </Suspense>
 
-        {hasStartedJourney && (
+        {hasStartedJourney && isWalking && (
+          <FirstPersonController
+            voxelWorldRef={voxelWorldRef}
+            onExit={handleWalkExit}
+            onLockChange={setIsPointerLocked}
+          />
+        )}
+
+        {hasStartedJourney && !isWalking && (
           <CameraController
             lookAtTarget={cameraTarget}
             onComplete={handleAnimationComplete}
             voxelWorldRef={voxelWorldRef}
             transitionData={cameraTransitionData}
+            viewPose={cameraPose}
+            onCameraChange={handleCameraChange}
           />
         )}
 
         <BlockOutlineEffect block={selectedBlock} />
+        <BlockOutlineEffect
+          block={hasStartedJourney && !isAnimating && !isWalking ? hoveredBlock : null}
+          outlineId="hover"
+          color={0xffffff}
+          pulse={false}
+        />
+
+        {buildMode && hasStartedJourney && hoveredBlock && hoverInfo && (
+          isShiftHeld ? (
+            <BuildPreview
+              position={[hoveredBlock.getPosition().x, hoveredBlock.getPosition().y, hoveredBlock.getPosition().z]}
+              color={0xff4444}
+            />
+          ) : (
+            <BuildPreview
+              position={[hoverInfo.adjacent.x, hoverInfo.adjacent.y, hoverInfo.adjacent.z]}
+              color={BLOCK_COLORS[buildType]}
+            />
+          )
+        )}
       </Canvas>
     </>
   )
@@ -0,0 +1,166 @@
+// sign-overlay.tsx
+'use client'
+
+import React, { useEffect, useRef } from 'react'
+import { SignOverlayProps } from '../types/types'
+import { PAGE_BREAK, SignSpan, getSignBodyLines, parseSignInline } from '../utils/sign-markdown'
+
+function renderSpans(spans: SignSpan[]): React.ReactNode[] {
+  return spans.map((span, index) => {
+    if (span.type === 'image') {
+      return <img key={index} src={span.src} alt={span.alt} style={{ height: '1.2em', verticalAlign: 'middle' }} />
+    }
+
+    const text = span.bold ? <strong>{span.text}</strong> : span.text
+    if (!span.href) return <React.Fragment key={index}>{text}</React.Fragment>
+
+    const isEmail = span.href.startsWith('mailto:')
+    return (
+      <a key={index} href={span.href} target={isEmail ? undefined : '_blank'} rel="noopener noreferrer" style={{ color: '#64B5F6' }}>
+        {text}
+      </a>
+    )
+  })
+}
+
+// Riga del corpo: un'immagine da sola occupa tutta la larghezza
+function renderLine(line: string): React.ReactNode {
+  const spans = parseSignInline(line)
+  const [first] = spans
+  if (spans.length === 1 && first.type === 'image') {
+    return <img src={first.src} alt={first.alt} style={{ display: 'block', maxWidth: '100%', margin: '8px 0' }} />
+  }
+  return renderSpans(spans)
+}
+
+// Le interruzioni di pagina dividono il corpo in sezioni separate da una linea
+function splitSections(lines: string[]): string[][] {
+  const sections: string[][] = [[]]
+  lines.forEach(line => {
+    if (line.trim() === PAGE_BREAK) sections.push([])
+    else sections[sections.length - 1].push(line)
+  })
+  return sections
+}
+
+const FOCUSABLE = 'a[href], button:not([disabled]), [tabindex]:not([tabindex="-1"])'
+
+// Vista di lettura di un cartello: testo a dimensione leggibile, selezionabile, con link attivi
+export function SignOverlay({ sign, onClose, returnFocus }: SignOverlayProps) {
+  const dialogRef = useRef<HTMLDivElement>(null)
+  const closeButtonRef = useRef<HTMLButtonElement>(null)
+  const { content, style = {} } = sign
+  const titleId = `sign-overlay-${sign.id}`
+  const sections = splitSections(getSignBodyLines(content.body))
+
+  // Il focus passa al dialogo, non ne esce finché è aperto e alla chiusura torna a chi l'ha aperto
+  useEffect(() => {
+    const previousFocus = document.activeElement as HTMLElement | null
+    closeButtonRef.current?.focus()
+
+    const handleFocusIn = (e: FocusEvent) => {
+      if (!dialogRef.current?.contains(e.target as Node)) closeButtonRef.current?.focus()
+    }
+    document.addEventListener('focusin', handleFocusIn)
+    return () => {
+      document.removeEventListener('focusin', handleFocusIn)
+      ;(returnFocus ?? previousFocus)?.focus?.()
+    }
+  }, [returnFocus])
+
+  // Tab e Maiusc+Tab girano tra gli elementi del dialogo
+  const handleTab = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (e.key !== 'Tab' || !dialogRef.current) return
+    const focusable = Array.from(dialogRef.current.querySelectorAll<HTMLElement>(FOCUSABLE))
+    if (focusable.length === 0) return
+
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+    const index = focusable.indexOf(document.activeElement as HTMLElement)
+    if (e.shiftKey && index <= 0) {
+      e.preventDefault()
+      last.focus()
+    } else if (!e.shiftKey && (index === -1 || index === focusable.length - 1)) {
+      e.preventDefault()
+      first.focus()
+    }
+  }
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleKey)
+    return () => window.removeEventListener('keydown', handleKey)
+  }, [onClose])
+
+  return (
+    <div
+      onClick={onClose}
+      style={{ position: 'absolute', inset: 0, zIndex: 5, display: 'flex', alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(0, 0, 0, 0.4)' }}
+    >
+      <div
+        ref={dialogRef}
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+        tabIndex={-1}
+        onKeyDown={handleTab}
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          position: 'relative',
+          maxWidth: 'min(560px, 90vw)',
+          maxHeight: '80vh',
+          overflowY: 'auto',
+          padding: '24px 28px',
+          borderRadius: '8px',
+          border: '4px solid #5D4037',
+          backgroundColor: style.backgroundColor || '#2C1810',
+          color: style.bodyColor || '#E0E0E0',
+          fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", sans-serif',
+          fontSize: '16px',
+          lineHeight: 1.6,
+          userSelect: 'text',
+          boxShadow: '0 10px 40px rgba(0, 0, 0, 0.5)',
+          outline: 'none'
+        }}
+      >
+        <button
+          ref={closeButtonRef}
+          onClick={onClose}
+          aria-label="Chiudi"
+          style={{ position: 'absolute', top: 8, right: 8, padding: '4px 10px', backgroundColor: 'transparent', color: 'inherit', border: '1px solid currentColor', borderRadius: '4px', cursor: 'pointer', fontSize: '14px' }}
+        >
+          ✕
+        </button>
+
+        <h2 id={titleId} style={{ margin: '0 32px 16px 0', fontSize: '24px', color: style.titleColor || '#FFFFFF' }}>
+          {content.title}
+        </h2>
+
+        {sections.map((lines, section) => (
+          <React.Fragment key={section}>
+            {section > 0 && <hr style={{ opacity: 0.3 }} />}
+            {Array.isArray(content.body) ? (
+              lines.length > 0 && (
+                <ul style={{ margin: 0, paddingLeft: '20px' }}>
+                  {lines.map((line, index) => <li key={index}>{renderLine(line)}</li>)}
+                </ul>
+              )
+            ) : (
+              lines.map((line, index) => <p key={index} style={{ margin: '0 0 4px' }}>{renderLine(line)}</p>)
+            )}
+          </React.Fragment>
+        ))}
+
+        {content.footer && (
+          <p style={{ margin: '16px 0 0', fontSize: '14px', color: style.footerColor || '#A0A0A0' }}>
+            {renderSpans(parseSignInline(content.footer))}
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SignOverlay
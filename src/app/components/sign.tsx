@@ -1,11 +1,12 @@
 // sign.tsx
 'use client'
 
-import React, { useRef, useState, useMemo, useCallback } from 'react'
-import { useFrame } from '@react-three/fiber'
+import React, { useRef, useState, useMemo, useCallback, useEffect } from 'react'
+import { ThreeEvent, useFrame } from '@react-three/fiber'
 import { Text } from '@react-three/drei'
 import * as THREE from 'three'
 import { TextLineProps, SignProps, SignStyle } from '../types/types'
+import { ICON_WIDTH, IMAGE_ROWS, SignSpan, layoutSignPages, parseSignInline } from '../utils/sign-markdown'
 
 function TextLine({ text, position, fontSize, color, fontFamily, anchorX = 'center', maxWidth }: TextLineProps) {
   const memoizedPosition = useMemo(() => position, [position[0], position[1], position[2]])
@@ -28,15 +29,181 @@ function TextLine({ text, position, fontSize, color, fontFamily, anchorX = 'cent
   )
 }
 
-function splitTextIntoColumns(text: string | string[], maxLinesPerColumn: number): string[][] {
-  const lines = Array.isArray(text) ? text : text.split('\n')
-  const columns: string[][] = []
+const DEFAULT_PANEL_WIDTH = 4
+const DEFAULT_PANEL_HEIGHT = 2.5
+const LINK_COLOR = '#64B5F6'
+// Avanzamento dello spazio nel font pixelato, in em
+const SPACE_WIDTH = 0.3125
 
-  for (let i = 0; i < lines.length; i += maxLinesPerColumn) {
-    columns.push(lines.slice(i, i + maxLinesPerColumn))
+// Texture condivise tra i cartelli, caricate una sola volta da /public
+const textureCache = new Map<string, Promise<THREE.Texture>>()
+
+function loadSignTexture(src: string): Promise<THREE.Texture> {
+  let texture = textureCache.get(src)
+  if (!texture) {
+    texture = new THREE.TextureLoader().loadAsync(src).then(loaded => {
+      loaded.colorSpace = THREE.SRGBColorSpace
+      return loaded
+    })
+    textureCache.set(src, texture)
   }
+  return texture
+}
+
+// Immagine o icona centrata in `position`, ridotta per stare in `maxWidth` × `height`
+function SignImage({ src, position, maxWidth, height }: {
+  src: string
+  position: [number, number, number]
+  maxWidth: number
+  height: number
+}) {
+  const [texture, setTexture] = useState<THREE.Texture | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    loadSignTexture(src)
+      .then(loaded => !cancelled && setTexture(loaded))
+      .catch(() => console.warn('Immagine del cartello non trovata:', src))
+    return () => { cancelled = true }
+  }, [src])
+
+  if (!texture) return null
+
+  const image = texture.image as { width: number, height: number }
+  const aspect = image.width / image.height || 1
+  const width = Math.min(maxWidth, height * aspect)
+
+  return (
+    <mesh position={position} renderOrder={1}>
+      <planeGeometry args={[width, width / aspect]} />
+      <meshBasicMaterial map={texture} transparent toneMapped={false} />
+    </mesh>
+  )
+}
+
+// Parte del mesh Text di troika usata per misurare i pezzi (il pacchetto non ha tipi)
+interface TroikaText {
+  textRenderInfo?: { blockBounds: [number, number, number, number] } | null
+}
+
+/**
+ * Riga di testo con stili misti: ogni pezzo è un testo a sé, affiancato al
+ * precedente appena troika ne conosce la larghezza. I link si aprono al click.
+ */
+function RichTextRow({ spans, position, fontSize, color, fontFamily }: {
+  spans: SignSpan[]
+  position: [number, number, number]
+  fontSize: number
+  color: string
+  fontFamily: string
+}) {
+  const [widths, setWidths] = useState<(number | undefined)[]>([])
+
+  const measure = useCallback((index: number, troika: TroikaText) => {
+    const bounds = troika.textRenderInfo?.blockBounds
+    if (!bounds) return
+    const width = bounds[2] - bounds[0]
+    setWidths(prev => {
+      if (prev[index] === width) return prev
+      const next = [...prev]
+      next[index] = width
+      return next
+    })
+  }, [])
+
+  const handleLinkClick = useCallback((event: ThreeEvent<MouseEvent>, href: string) => {
+    event.stopPropagation()
+    window.open(href, '_blank', 'noopener,noreferrer')
+  }, [])
+
+  // Finché non sono misurati tutti i pezzi la riga resta nascosta
+  const isMeasured = spans.every((span, i) => span.type === 'image' || spans.length === 1 || widths[i] !== undefined)
+  let x = 0
+
+  return (
+    <group position={position} visible={isMeasured}>
+      {spans.map((span, i) => {
+        const start = x
+        if (span.type === 'image') {
+          x += ICON_WIDTH * fontSize
+          return (
+            <SignImage
+              key={i}
+              src={span.src}
+              position={[start + ICON_WIDTH * fontSize / 2, 0, 0]}
+              maxWidth={ICON_WIDTH * fontSize}
+              height={ICON_WIDTH * fontSize}
+            />
+          )
+        }
+
+        // troika non conta gli spazi finali nella larghezza
+        const trailing = span.text.length - span.text.trimEnd().length
+        x += (widths[i] ?? 0) + trailing * SPACE_WIDTH * fontSize
+        const href = span.href
+
+        return (
+          <Text
+            key={i}
+            position={[start, 0, 0]}
+            fontSize={fontSize}
+            color={href ? LINK_COLOR : color}
+            font={fontFamily}
+            anchorX="left"
+            anchorY="middle"
+            whiteSpace="nowrap"
+            // Grassetto simulato: il font pixelato ha un solo peso
+            outlineWidth={span.bold ? fontSize * 0.04 : 0}
+            outlineColor={color}
+            renderOrder={1}
+            material-toneMapped={false}
+            onSync={(troika) => measure(i, troika)}
+            onClick={href ? (event) => handleLinkClick(event, href) : undefined}
+          >
+            {span.text}
+          </Text>
+        )
+      })}
+    </group>
+  )
+}
 
-  return columns
+// Pulsante di pagina nel mondo: non propaga il click al cartello
+function PagerButton({ label, position, size, color, fontFamily, disabled, onClick }: {
+  label: string
+  position: [number, number, number]
+  size: number
+  color: string
+  fontFamily: string
+  disabled: boolean
+  onClick: () => void
+}) {
+  const handleClick = useCallback((event: ThreeEvent<MouseEvent>) => {
+    event.stopPropagation()
+    if (!disabled) onClick()
+  }, [disabled, onClick])
+
+  return (
+    <group position={position}>
+      <mesh onClick={handleClick}>
+        <planeGeometry args={[size, size]} />
+        <meshBasicMaterial color="#000000" transparent opacity={disabled ? 0.1 : 0.35} toneMapped={false} />
+      </mesh>
+      <TextLine
+        text={label}
+        position={[0, 0, 0.005]}
+        fontSize={size * 0.7}
+        color={color}
+        fontFamily={fontFamily}
+      />
+    </group>
+  )
+}
+
+// Distanza verticale tra il centro del pannello e la base del palo
+export function getSignBaseOffset(scale: number = 1, style: SignStyle = {}): number {
+  const panelHeight = (style.panelHeight || DEFAULT_PANEL_HEIGHT) * scale
+  return panelHeight * 0.5 + 2 * scale
 }
 
 export function Sign({
@@ -51,12 +218,19 @@ export function Sign({
   const groupRef = useRef<THREE.Group>(null!)
   const [isHovered, setIsHovered] = useState(false)
   const [isVisible, setIsVisible] = useState(true) // Inizia visibile per evitare flash
+  const [page, setPage] = useState(0)
   
   // Usa ref per evitare re-render frequenti
   const lastVisibilityCheck = useRef(0)
   const lastDistanceCheck = useRef(0)
   
   const memoizedPosition = useMemo(() => new THREE.Vector3(...position), [position[0], position[1], position[2]])
+  // Blocco su cui poggia il palo (letto dall'esportazione per i limiti dell'area)
+  const anchor = useMemo(() => new THREE.Vector3(
+    position[0],
+    position[1] - getSignBaseOffset(scale, style) - 0.5,
+    position[2]
+  ), [position[0], position[1], position[2], scale, style.panelHeight])
   const memoizedRotation = useMemo(() => rotation, [rotation[0], rotation[1], rotation[2]])
 
   const defaultStyle: Required<SignStyle> = useMemo(() => ({
@@ -65,8 +239,8 @@ export function Sign({
     footerColor: style.footerColor || '#A0A0A0',
     backgroundColor: style.backgroundColor || '#2C1810',
     fontFamily: style.fontFamily || '/fonts/monobit.ttf', 
-    panelWidth: style.panelWidth || 4,
-    panelHeight: style.panelHeight || 2.5,
+    panelWidth: style.panelWidth || DEFAULT_PANEL_WIDTH,
+    panelHeight: style.panelHeight || DEFAULT_PANEL_HEIGHT,
   }), [style])
 
   const dimensions = useMemo(() => {
@@ -77,18 +251,31 @@ export function Sign({
       scaledWidth,
       scaledHeight,
       titleY: scaledHeight * 0.35,
-      bodyStartY: scaledHeight * 0.1,
-      footerY: -scaledHeight * 0.35,
+      bodyStartY: scaledHeight * 0.18,
+      bodyLeft: -scaledWidth * 0.45,
+      footerY: -scaledHeight * 0.38,
       titleFontSize: 0.15 * scale,
       bodyFontSize: 0.1 * scale,
+      rowHeight: 0.15 * scale,
       footerFontSize: 0.08 * scale,
     }
   }, [defaultStyle.panelWidth, defaultStyle.panelHeight, scale])
 
-  const bodyColumns = useMemo(() => {
-    const maxLinesPerColumn = 8
-    return splitTextIntoColumns(content.body, maxLinesPerColumn)
-  }, [content.body])
+  // Il corpo va a capo alla larghezza del pannello e prosegue su più pagine
+  const pages = useMemo(() => {
+    const bodyBottom = dimensions.footerY + dimensions.rowHeight * 0.8
+    return layoutSignPages(content.body, {
+      rowWidth: (dimensions.scaledWidth * 0.9) / dimensions.bodyFontSize,
+      rowsPerPage: Math.max(1, Math.floor((dimensions.bodyStartY - bodyBottom) / dimensions.rowHeight) + 1),
+    })
+  }, [content.body, dimensions])
+
+  const footerSpans = useMemo(() => content.footer ? parseSignInline(content.footer) : [], [content.footer])
+  const currentPage = Math.min(page, pages.length - 1)
+
+  useEffect(() => {
+    setPage(0)
+  }, [content])
 
   // Geometrie memoizzate
   const geometries = useMemo(() => ({
@@ -132,18 +319,18 @@ export function Sign({
   })
 
   // Handler ottimizzati
-  const handleClick = useCallback((event: any) => {
+  const handleClick = useCallback((event: ThreeEvent<MouseEvent>) => {
     event.stopPropagation()
-    // Rimuovi l'animazione automatica della camera - lascia che sia l'utente a controllare
+    onCameraMove?.(groupRef.current.getWorldPosition(new THREE.Vector3()))
     onInteract?.()
-  }, [onInteract])
+  }, [onCameraMove, onInteract])
 
-  const handlePointerEnter = useCallback((e: any) => {
+  const handlePointerEnter = useCallback((e: ThreeEvent<PointerEvent>) => {
     e.stopPropagation()
     setIsHovered(true)
   }, [])
 
-  const handlePointerLeave = useCallback((e: any) => {
+  const handlePointerLeave = useCallback((e: ThreeEvent<PointerEvent>) => {
     e.stopPropagation()
     setIsHovered(false)
   }, [])
@@ -161,38 +348,80 @@ export function Sign({
         maxWidth={dimensions.scaledWidth * 0.9}
       />
 
-      {bodyColumns.map((column, colIndex) => {
-        const columnX = bodyColumns.length > 1
-          ? (dimensions.scaledWidth * 0.4) - (colIndex * dimensions.scaledWidth * 0.4)
-          : dimensions.scaledWidth * 0.4
+      {(() => {
+        let rowIndex = 0
+        return pages[currentPage].map((row, index) => {
+          const y = dimensions.bodyStartY - rowIndex * dimensions.rowHeight
 
-        return column.map((line, lineIndex) => (
-          <TextLine
-            key={`${colIndex}-${lineIndex}`}
-            text={Array.isArray(content.body) ? `• ${line}` : line}
-            position={[columnX, dimensions.bodyStartY - (lineIndex * dimensions.bodyFontSize * 1.5), 0]}
-            fontSize={dimensions.bodyFontSize}
-            color={defaultStyle.bodyColor}
-            fontFamily={defaultStyle.fontFamily}
-            anchorX="right"
-            maxWidth={dimensions.scaledWidth * 0.45}
-          />
-        ))
-      })}
+          if (row.type === 'image') {
+            rowIndex += IMAGE_ROWS
+            const height = IMAGE_ROWS * dimensions.rowHeight * 0.9
+            return (
+              <SignImage
+                key={`${currentPage}-${index}`}
+                src={row.src}
+                position={[0, y - (IMAGE_ROWS - 1) * dimensions.rowHeight / 2, 0]}
+                maxWidth={dimensions.scaledWidth * 0.9}
+                height={height}
+              />
+            )
+          }
 
-      {content.footer && (
-        <TextLine
-          text={content.footer}
-          position={[-dimensions.scaledWidth * 0.4, dimensions.footerY, 0]}
+          rowIndex += 1
+          return (
+            <RichTextRow
+              key={`${currentPage}-${index}`}
+              spans={row.spans}
+              position={[dimensions.bodyLeft, y, 0]}
+              fontSize={dimensions.bodyFontSize}
+              color={defaultStyle.bodyColor}
+              fontFamily={defaultStyle.fontFamily}
+            />
+          )
+        })
+      })()}
+
+      {footerSpans.length > 0 && (
+        <RichTextRow
+          spans={footerSpans}
+          position={[dimensions.bodyLeft, dimensions.footerY, 0]}
           fontSize={dimensions.footerFontSize}
           color={defaultStyle.footerColor}
           fontFamily={defaultStyle.fontFamily}
-          anchorX="left"
-          maxWidth={dimensions.scaledWidth * 0.8}
         />
       )}
+
+      {pages.length > 1 && (
+        <>
+          <PagerButton
+            label="<"
+            position={[dimensions.scaledWidth * 0.28, dimensions.footerY, 0]}
+            size={dimensions.rowHeight * 1.2}
+            color={defaultStyle.titleColor}
+            fontFamily={defaultStyle.fontFamily}
+            disabled={currentPage === 0}
+            onClick={() => setPage(currentPage - 1)}
+          />
+          <TextLine
+            text={`${currentPage + 1}/${pages.length}`}
+            position={[dimensions.scaledWidth * 0.36, dimensions.footerY, 0]}
+            fontSize={dimensions.footerFontSize}
+            color={defaultStyle.footerColor}
+            fontFamily={defaultStyle.fontFamily}
+          />
+          <PagerButton
+            label=">"
+            position={[dimensions.scaledWidth * 0.44, dimensions.footerY, 0]}
+            size={dimensions.rowHeight * 1.2}
+            color={defaultStyle.titleColor}
+            fontFamily={defaultStyle.fontFamily}
+            disabled={currentPage === pages.length - 1}
+            onClick={() => setPage(currentPage + 1)}
+          />
+        </>
+      )}
     </group>
-  ), [isVisible, scale, content, dimensions, defaultStyle, bodyColumns])
+  ), [isVisible, scale, content, dimensions, defaultStyle, pages, currentPage, footerSpans])
 
   const materials = useMemo(() => ({
     stick: <meshStandardMaterial color="#3E2723" roughness={0.8} />,
@@ -205,11 +434,13 @@ export function Sign({
       ref={groupRef}
       position={memoizedPosition}
       rotation={memoizedRotation}
+      userData={{ anchor }}
       onClick={handleClick}
       onPointerEnter={handlePointerEnter}
       onPointerLeave={handlePointerLeave}
     >
       <mesh 
+        name="stick"
         geometry={geometries.stick} 
         position={[0, -dimensions.scaledHeight * 0.5 - scale, 0]} 
         castShadow 
@@ -219,6 +450,7 @@ export function Sign({
       </mesh>
 
       <mesh 
+        name="frame"
         geometry={geometries.frame} 
         position={[0, 0, -0.02 * scale]} 
         castShadow 
@@ -227,7 +459,7 @@ export function Sign({
         {materials.frame}
       </mesh>
 
-      <mesh geometry={geometries.panel} castShadow receiveShadow>
+      <mesh name="panel" geometry={geometries.panel} castShadow receiveShadow>
         {materials.panel}
       </mesh>
 
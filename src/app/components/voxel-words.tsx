@@ -3,54 +3,104 @@
 
 import * as THREE from 'three'
 import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react'
-import { createNoise2D, NoiseFunction2D } from 'simplex-noise'
-import { BufferGeometryUtils } from 'three/examples/jsm/Addons.js'
 import { useThree, useFrame } from '@react-three/fiber'
-import { Sign } from './sign'
-import { VoxelWorldRef, VoxelWorldProps, BlockData, SignData, Block, VoxelWorldInstance } from '../types/types'
-
-const WORLD_SIZE = 128
-const MAX_HEIGHT = 40
-const WATER_LEVEL = 12
-const BEACH_HEIGHT = WATER_LEVEL + 3
-const NOISE_SCALE = 30
-const OCTAVES = 2
-const LACUNARITY = 2.0
-const PERSISTENCE = 0.5
-const TERRAIN_OFFSET = -2
-
-// Shader leggeri per migliorare l'aspetto visivo
+import { Sign, getSignBaseOffset } from './sign'
+import { signsData } from '../data/signData'
+import { VoxelWorldRef, VoxelWorldProps, BlockData, BlockEdit, SignData, SavedWorld, Block, VoxelWorldInstance, SignCameraMoveCallback, SignInteractCallback } from '../types/types'
+import { createRandom, hashSeed, randomSeed, shuffle } from '../utils/random'
+import { CHUNK_SIZE, ChunkData, blockIndex, chunkKey, createPaddedBlocks, getChunkColumn, worldToChunk } from '../world/chunks'
+import {
+    AIR,
+    BLOCK_COLORS,
+    DEFAULT_TERRAIN_CONFIG,
+    GENERATOR_VERSION,
+    WATER,
+    TerrainConfig,
+    TerrainGenerator,
+    createTerrainGenerator,
+    getBlockId,
+    getBlockTypeName,
+    isSameTerrainConfig,
+    isSolidBlock
+} from '../world/terrain'
+import { ChunkMeshData, createGeometry, packChunkColors } from '../world/mesher'
+import { WorkerRequest, WorkerResponse } from '../world/protocol'
+import { BlockOutlines } from '../world/outlines'
+import { BlockState, EditHistory, EditKind } from '../world/history'
+import { DEFAULT_BIOME } from '../world/biomes'
+import { RESERVED_REACH, getReservedAreas, isSameReserved } from '../world/decorations'
+import { applyEditsToChunk, diffChunk, groupEditsByChunk } from '../world/diff'
+import { deleteWorld, loadWorld, saveWorld } from '../utils/world-storage'
+import { createWorldFile, decodeWorldFile, encodeWorldFile } from '../world/world-file'
+import { ModelExportOptions, exportModel } from '../world/exporter'
+import { traverseVoxels } from '../world/raycast'
+import { WaterSimulation } from '../world/water'
+import { DEFAULT_TIME_OF_DAY, getDaylight } from '../utils/daylight'
+
+// Margine oltre il raggio prima di scaricare un chunk, evita carichi/scarichi continui
+const UNLOAD_MARGIN = 1
+// Richieste di generazione in volo verso il worker
+const MAX_PENDING_CHUNKS = 4
+// Attesa dopo l'ultima modifica prima del salvataggio automatico (ms)
+const SAVE_DELAY = 1000
+// Intervallo tra due passi della simulazione dell'acqua (s)
+const WATER_STEP_INTERVAL = 0.2
+// Raggio (in chunk) attorno all'origine da cui si estraggono i blocchi casuali
+const SAMPLE_CHUNK_RADIUS = 1
+
+// Shader leggeri per migliorare l'aspetto visivo.
+// I chunk di three.js aggiungono le coordinate per le shadow map della luce direzionale
 const vertexShader = `
-  varying vec3 vNormal;
+  #include <common>
+  #include <shadowmap_pars_vertex>
+  varying vec3 vWorldNormal;
   varying vec3 vPosition;
   varying vec2 vUv;
+  attribute vec4 blockColor;
+  varying vec4 vBlockColor;
   
   void main() {
+    #include <beginnormal_vertex>
+    #include <defaultnormal_vertex>
+    #include <begin_vertex>
+    #include <project_vertex>
+    #include <worldpos_vertex>
+    #include <shadowmap_vertex>
+
     vUv = uv;
-    vNormal = normalize(normalMatrix * normal);
-    vPosition = (modelViewMatrix * vec4(position, 1.0)).xyz;
-    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+    vBlockColor = blockColor;
+    vWorldNormal = normalize((modelMatrix * vec4(objectNormal, 0.0)).xyz);
+    vPosition = mvPosition.xyz;
   }
 `
 
 const fragmentShader = `
+  #include <common>
+  #include <packing>
+  #include <lights_pars_begin>
+  #include <shadowmap_pars_fragment>
+  #include <shadowmask_pars_fragment>
   uniform vec3 baseColor;
   uniform vec3 lightDirection;
+  uniform vec3 lightColor;
+  uniform vec3 ambientColor;
   uniform float ambientStrength;
-  varying vec3 vNormal;
+  varying vec3 vWorldNormal;
   varying vec3 vPosition;
   varying vec2 vUv;
+  varying vec4 vBlockColor;
   
   void main() {
-    vec3 normal = normalize(vNormal);
+    vec3 normal = normalize(vWorldNormal);
     
-    // Illuminazione direzionale semplice
+    // Sole (o luna) con ombre, più la luce diffusa del cielo
     float NdotL = max(dot(normal, lightDirection), 0.0);
-    float diffuse = NdotL * 0.8 + ambientStrength;
+    vec3 diffuse = lightColor * NdotL * 0.8 * getShadowMask() + ambientColor * ambientStrength;
     
     // Variazione di colore basata sulla posizione per texturing procedurale
     float noise = sin(vPosition.x * 0.5) * sin(vPosition.z * 0.5) * 0.1 + 0.9;
-    vec3 color = baseColor * noise;
+    // Colore personalizzato del blocco (alpha 1) o colore base del materiale
+    vec3 color = mix(baseColor, vBlockColor.rgb, vBlockColor.a) * noise;
     
     // Ombreggiatura per facce laterali
     if (abs(normal.y) < 0.9) {
@@ -78,6 +128,8 @@ const waterVertexShader = `
 
 const waterFragmentShader = `
   uniform float time;
+  uniform vec3 lightColor;
+  uniform vec3 ambientColor;
   varying vec2 vUv;
   varying vec3 vPosition;
   
@@ -87,116 +139,86 @@ const waterFragmentShader = `
     
     // Colore acqua con gradiente
     vec3 waterColor = mix(vec3(0.2, 0.4, 0.8), vec3(0.4, 0.6, 0.9), wave + 0.5);
+    // Più scura di notte, calda al tramonto
+    waterColor *= ambientColor * 0.6 + lightColor * 0.4;
     
     gl_FragColor = vec4(waterColor, 0.8);
   }
 `
 
-// Materiali con shader personalizzati leggeri
-const createMaterials = () => {
-    const lightDirection = new THREE.Vector3(0.5, 0.8, 0.3).normalize()
-    
-    return {
-        grass: new THREE.ShaderMaterial({
-            vertexShader,
-            fragmentShader,
-            uniforms: {
-                baseColor: { value: new THREE.Color(0x6a994e) },
-                lightDirection: { value: lightDirection },
-                ambientStrength: { value: 0.3 }
-            }
-        }),
-        dirt: new THREE.ShaderMaterial({
-            vertexShader,
-            fragmentShader,
-            uniforms: {
-                baseColor: { value: new THREE.Color(0x8B4513) },
-                lightDirection: { value: lightDirection },
-                ambientStrength: { value: 0.25 }
-            }
-        }),
-        stone: new THREE.ShaderMaterial({
-            vertexShader,
-            fragmentShader,
-            uniforms: {
-                baseColor: { value: new THREE.Color(0x696969) },
-                lightDirection: { value: lightDirection },
-                ambientStrength: { value: 0.2 }
-            }
-        }),
-        sand: new THREE.ShaderMaterial({
-            vertexShader,
-            fragmentShader,
-            uniforms: {
-                baseColor: { value: new THREE.Color(0xF4A460) },
-                lightDirection: { value: lightDirection },
-                ambientStrength: { value: 0.4 }
-            }
-        }),
-        snow: new THREE.ShaderMaterial({
-            vertexShader,
-            fragmentShader,
-            uniforms: {
-                baseColor: { value: new THREE.Color(0xFFFAFA) },
-                lightDirection: { value: lightDirection },
-                ambientStrength: { value: 0.6 }
-            }
-        }),
-        rock: new THREE.ShaderMaterial({
-            vertexShader,
-            fragmentShader,
-            uniforms: {
-                baseColor: { value: new THREE.Color(0x654321) },
-                lightDirection: { value: lightDirection },
-                ambientStrength: { value: 0.15 }
-            }
-        })
-    }
+// Uniform dell'illuminazione condivise da tutti i materiali, aggiornate dal ciclo giorno/notte
+interface LightingUniforms {
+    lightDirection: { value: THREE.Vector3 }
+    lightColor: { value: THREE.Color }
+    ambientColor: { value: THREE.Color }
 }
 
-// Rumore semplificato
-function getFractalNoise(noise2D: NoiseFunction2D, x: number, z: number): number {
-    let total = 0
-    let frequency = 1
-    let amplitude = 1
-    let maxValue = 0
-
-    for (let i = 0; i < OCTAVES; i++) {
-        total += noise2D(x * frequency, z * frequency) * amplitude
-        maxValue += amplitude
-        amplitude *= PERSISTENCE
-        frequency *= LACUNARITY
+function createLightingUniforms(): LightingUniforms {
+    const daylight = getDaylight(DEFAULT_TIME_OF_DAY)
+    return {
+        lightDirection: { value: daylight.lightDirection },
+        lightColor: { value: daylight.lightColor.multiplyScalar(daylight.lightIntensity) },
+        ambientColor: { value: daylight.ambientColor }
     }
+}
 
-    return total / maxValue
+// `lights: true` serve a ricevere le shadow map della luce direzionale della scena
+function createTerrainMaterial(color: number, ambientStrength: number, lighting: LightingUniforms) {
+    return new THREE.ShaderMaterial({
+        vertexShader,
+        fragmentShader,
+        lights: true,
+        uniforms: {
+            ...THREE.UniformsUtils.clone(THREE.UniformsLib.lights),
+            ...lighting,
+            baseColor: { value: new THREE.Color(color) },
+            ambientStrength: { value: ambientStrength }
+        }
+    })
 }
 
-function getBlockType(y: number, surfaceHeight: number): string {
-    if (y > surfaceHeight) return 'water'
-    if (y === surfaceHeight) {
-        if (surfaceHeight > 28) return 'snow'
-        if (surfaceHeight > 22) return 'rock'
-        if (surfaceHeight <= BEACH_HEIGHT) return 'sand'
-        return 'grass'
+// Materiali con shader personalizzati leggeri
+const createMaterials = (lighting: LightingUniforms) => {
+    return {
+        grass: createTerrainMaterial(BLOCK_COLORS.grass, 0.3, lighting),
+        dirt: createTerrainMaterial(BLOCK_COLORS.dirt, 0.25, lighting),
+        stone: createTerrainMaterial(BLOCK_COLORS.stone, 0.2, lighting),
+        sand: createTerrainMaterial(BLOCK_COLORS.sand, 0.4, lighting),
+        snow: createTerrainMaterial(BLOCK_COLORS.snow, 0.6, lighting),
+        rock: createTerrainMaterial(BLOCK_COLORS.rock, 0.15, lighting),
+        forest_grass: createTerrainMaterial(BLOCK_COLORS.forest_grass, 0.25, lighting),
+        sandstone: createTerrainMaterial(BLOCK_COLORS.sandstone, 0.35, lighting),
+        mud: createTerrainMaterial(BLOCK_COLORS.mud, 0.2, lighting),
+        clay: createTerrainMaterial(BLOCK_COLORS.clay, 0.3, lighting),
+        ice: createTerrainMaterial(BLOCK_COLORS.ice, 0.5, lighting),
+        wood: createTerrainMaterial(BLOCK_COLORS.wood, 0.2, lighting),
+        leaves: createTerrainMaterial(BLOCK_COLORS.leaves, 0.3, lighting),
+        cactus: createTerrainMaterial(BLOCK_COLORS.cactus, 0.3, lighting),
+        cobblestone: createTerrainMaterial(BLOCK_COLORS.cobblestone, 0.2, lighting)
     }
-    if (surfaceHeight - y < 5) return 'dirt'
-    return 'stone'
 }
 
-function isBlockVisible(x: number, y: number, z: number, heightMap: number[][]): boolean {
-    if (x === 0 || x === WORLD_SIZE - 1 || z === 0 || z === WORLD_SIZE - 1) return true
-    if (y === 0 || y === MAX_HEIGHT - 1) return true
+interface LoadedChunk {
+    data: ChunkData
+    meshes: THREE.Mesh[]
+    edited: boolean
+}
 
-    const surfaceHeight = heightMap[x][z]
-    if (y > surfaceHeight || y === surfaceHeight) return true
+// Appoggia il palo del cartello sulla superficie del terreno alla sua X/Z
+function snapSignToTerrain(sign: SignData, generator: TerrainGenerator): SignData {
+    const x = Math.round(sign.position[0])
+    const z = Math.round(sign.position[2])
 
-    return y > heightMap[x - 1][z] || y > heightMap[x + 1][z] ||
-           y > heightMap[x][z - 1] || y > heightMap[x][z + 1]
+    // Sopra il mare il cartello resta a pelo d'acqua
+    const groundY = Math.max(generator.getSurfaceHeight(x, z), generator.config.waterLevel) + 0.5
+    const y = groundY + getSignBaseOffset(sign.scale, sign.style)
+    return { ...sign, position: [sign.position[0], y, sign.position[2]] }
 }
 
-const MemoizedSign = React.memo(({ signData, onSignCameraMove }: { 
+const MemoizedSign = React.memo(({ signData, onSignCameraMove, onSignInteract }: { 
   signData: SignData, 
-  onSignCameraMove?: (target: THREE.Vector3) => void 
+  onSignCameraMove?: SignCameraMoveCallback
+  onSignInteract?: SignInteractCallback
 }) => (
     <Sign
         position={signData.position}
@@ -205,329 +227,948 @@ const MemoizedSign = React.memo(({ signData, onSignCameraMove }: {
         content={signData.content}
         style={signData.style}
         onCameraMove={onSignCameraMove}
+        onInteract={() => onSignInteract?.(signData)}
     />
 ), (prev, next) => prev.signData.id === next.signData.id && 
                   JSON.stringify(prev.signData) === JSON.stringify(next.signData))
 
+
 export const VoxelWorld = React.forwardRef<VoxelWorldRef, VoxelWorldProps>(
-    ({ onLoadingProgress, onBlockClick, onSignCameraMove }, ref) => {
+    ({
+        initialSeed,
+        initialSigns = signsData,
+        terrain = DEFAULT_TERRAIN_CONFIG,
+        timeOfDay = DEFAULT_TIME_OF_DAY,
+        chunkRadius: requestedChunkRadius,
+        onSeedChange,
+        onTerrainChange,
+        onLoadingProgress,
+        onBlockClick,
+        onBlockHover,
+        onSignCameraMove,
+        onSignInteract,
+        targetWater = false
+    }, ref) => {
         const groupRef = useRef<THREE.Group>(null!)
-        const [worldData, setWorldData] = useState<Map<string, BlockData>>(new Map())
-        const worldDataRef = useRef<Map<string, BlockData>>(new Map())
-        const [meshes, setMeshes] = useState<{ mesh: THREE.Mesh; type: string }[]>([])
-        const [waterMesh, setWaterMesh] = useState<THREE.Mesh | null>(null)
-        const [isGenerating, setIsGenerating] = useState(false)
+        const chunksGroupRef = useRef<THREE.Group>(null!)
+        const signsGroupRef = useRef<THREE.Group>(null)
+        const terrainRef = useRef(terrain)
+        const [terrainConfig, setTerrainConfig] = useState(terrain)
+        // Raggio (in chunk) dell'area caricata attorno alla camera
+        const chunkRadius = requestedChunkRadius ?? Math.max(1, Math.round(terrainConfig.worldSize / CHUNK_SIZE / 2))
+        const chunksRef = useRef<Map<string, LoadedChunk>>(new Map())
+        // Chunk modificati e poi scaricati: restano in memoria per non perdere le modifiche
+        const editedChunksRef = useRef<Map<string, ChunkData>>(new Map())
+        const dirtyChunksRef = useRef<Set<string>>(new Set())
+        const generatorRef = useRef<TerrainGenerator | null>(null)
+        const workerRef = useRef<Worker | null>(null)
+        // Incrementato ad ogni rigenerazione per scartare le risposte vecchie del worker
+        const generationRef = useRef(0)
+        const pendingChunksRef = useRef<Set<string>>(new Set())
+        const meshingChunksRef = useRef<Set<string>>(new Set())
+        const streamingCenterRef = useRef({ cx: 0, cz: 0 })
+        const isLoadingRef = useRef(false)
+        const loadingProgressRef = useRef(0)
+        // Lo streaming attende il ripristino delle modifiche salvate
+        const isRestoringRef = useRef(false)
+        const signsEditedRef = useRef(false)
+        const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
         const [seed, setSeed] = useState(1)
-        const [needsFullRebuild, setNeedsFullRebuild] = useState(true)
-        const [surfaceBlocksData, setSurfaceBlocksData] = useState<BlockData[]>([])
         const [signs, setSigns] = useState<SignData[]>([])
+        // I cartelli memoizzati ricevono wrapper stabili che chiamano sempre le callback più recenti
+        const signCallbacksRef = useRef({ onSignCameraMove, onSignInteract })
+        signCallbacksRef.current = { onSignCameraMove, onSignInteract }
+        const handleSignCameraMove = useCallback<SignCameraMoveCallback>(
+            target => signCallbacksRef.current.onSignCameraMove?.(target), [])
+        const handleSignInteract = useCallback<SignInteractCallback>(
+            sign => signCallbacksRef.current.onSignInteract?.(sign), [])
         const signsRef = useRef<SignData[]>([])
+        // PRNG per le scelte casuali sul mondo, riallineato ad ogni generazione
+        const randomRef = useRef(createRandom(1))
 
         useEffect(() => {
-            worldDataRef.current = worldData
             signsRef.current = signs
-        }, [worldData, signs])
+        }, [signs])
+
+        const lighting = useMemo(() => createLightingUniforms(), [])
+        const materials = useMemo(() => createMaterials(lighting), [lighting])
+        const waterMaterial = useMemo(() => new THREE.ShaderMaterial({
+            vertexShader: waterVertexShader,
+            fragmentShader: waterFragmentShader,
+            transparent: true,
+            uniforms: {
+                time: { value: 0 },
+                lightColor: lighting.lightColor,
+                ambientColor: lighting.ambientColor
+            }
+        }), [lighting])
 
-        const materials = useMemo(() => createMaterials(), [])
+        // Stessa luce del cielo e della luce direzionale della scena
+        useEffect(() => {
+            const daylight = getDaylight(timeOfDay)
+            lighting.lightDirection.value.copy(daylight.lightDirection)
+            lighting.lightColor.value.copy(daylight.lightColor).multiplyScalar(daylight.lightIntensity)
+            lighting.ambientColor.value.copy(daylight.ambientColor)
+        }, [lighting, timeOfDay])
+        const water = useMemo(() => new WaterSimulation(), [])
+        const waterTimerRef = useRef(0)
         const { gl, camera } = useThree()
         const raycaster = useMemo(() => new THREE.Raycaster(), [])
         const mouse = useMemo(() => new THREE.Vector2(), [])
+        const outlines = useMemo(() => new BlockOutlines(), [])
+        const history = useMemo(() => new EditHistory(), [])
+        const hoverPointerRef = useRef<{ x: number; y: number } | null>(null)
+        const lastPointerRef = useRef<{ x: number; y: number } | null>(null)
+        const hoveredKeyRef = useRef<string | null>(null)
+        // Hover da ricalcolare appena le mesh modificate sono in scena
+        const hoverStaleRef = useRef(false)
+        const streamingFocus = useMemo(() => new THREE.Vector3(), [])
+        const groundPlane = useMemo(() => new THREE.Plane(new THREE.Vector3(0, 1, 0), 0), [])
+
+        const getLoadedChunk = useCallback((x: number, z: number) => {
+            const { cx, cz, lx, lz } = worldToChunk(x, z)
+            const chunk = chunksRef.current.get(chunkKey(cx, cz))
+            return chunk ? { chunk, lx, lz } : null
+        }, [])
+
+        const getBlockIdAt = useCallback((x: number, y: number, z: number) => {
+            const hit = getLoadedChunk(x, z)
+            if (!hit || y < 0 || y >= hit.chunk.data.height) return AIR
+            return hit.chunk.data.blocks[blockIndex(hit.lx, y, hit.lz)]
+        }, [getLoadedChunk])
+
+        // Colonna di blocchi ai bordi di un chunk, anche se il vicino non è caricato
+        const getColumn = useCallback((x: number, z: number) => {
+            const { cx, cz, lx, lz } = worldToChunk(x, z)
+            const key = chunkKey(cx, cz)
+            const data = chunksRef.current.get(key)?.data ?? editedChunksRef.current.get(key)
+            if (data) return getChunkColumn(data, lx, lz)
+            return generatorRef.current!.getColumn(x, z)
+        }, [])
+
+        const disposeChunkMeshes = useCallback((chunk: LoadedChunk) => {
+            chunk.meshes.forEach(mesh => {
+                chunksGroupRef.current?.remove(mesh)
+                mesh.geometry.dispose()
+            })
+            chunk.meshes = []
+        }, [])
+
+        const applyChunkMesh = useCallback((chunk: LoadedChunk, meshData: ChunkMeshData) => {
+            disposeChunkMeshes(chunk)
+
+            meshData.solids.forEach(buffers => {
+                const mesh = new THREE.Mesh(createGeometry(buffers), materials[buffers.type as keyof typeof materials])
+                mesh.castShadow = true
+                mesh.receiveShadow = true
+                chunk.meshes.push(mesh)
+            })
+
+            if (meshData.water) {
+                const waterMesh = new THREE.Mesh(createGeometry(meshData.water), waterMaterial)
+                // Di norma il raycast attraversa l'acqua (vedi getBlockAtMouse)
+                waterMesh.userData.isWater = true
+                waterMesh.receiveShadow = true
+                chunk.meshes.push(waterMesh)
+            }
+
+            chunk.meshes.forEach(mesh => chunksGroupRef.current.add(mesh))
+        }, [disposeChunkMeshes, materials, waterMaterial])
+
+        const postToWorker = useCallback((request: WorkerRequest, transfer: ArrayBuffer[] = []) => {
+            workerRef.current?.postMessage(request, transfer)
+        }, [])
+
+        const requestChunkMesh = useCallback((key: string) => {
+            const chunk = chunksRef.current.get(key)
+            if (!chunk) return
+
+            const padded = createPaddedBlocks(chunk.data, getColumn)
+            const colors = packChunkColors(chunk.data)
+            meshingChunksRef.current.add(key)
+            postToWorker({
+                type: 'mesh',
+                generation: generationRef.current,
+                cx: chunk.data.cx,
+                cz: chunk.data.cz,
+                height: chunk.data.height,
+                padded,
+                colorIndices: colors.indices,
+                colorValues: colors.values
+            }, [padded.buffer as ArrayBuffer, colors.indices.buffer as ArrayBuffer, colors.values.buffer as ArrayBuffer])
+        }, [getColumn, postToWorker])
+
+        const hasEditedNeighbor = useCallback((cx: number, cz: number) => {
+            return [[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dz]) => (
+                chunksRef.current.get(chunkKey(cx + dx, cz + dz))?.edited
+            ))
+        }, [])
+
+        const loadChunk = useCallback((cx: number, cz: number) => {
+            const key = chunkKey(cx, cz)
+            const edited = editedChunksRef.current.get(key)
+
+            if (!edited) {
+                pendingChunksRef.current.add(key)
+                postToWorker({
+                    type: 'generate',
+                    generation: generationRef.current,
+                    seed: generatorRef.current!.seed,
+                    config: generatorRef.current!.config,
+                    reserved: generatorRef.current!.reserved,
+                    cx,
+                    cz
+                })
+                return
+            }
+
+            // Chunk modificato in precedenza: si riusano i suoi dati
+            editedChunksRef.current.delete(key)
+            chunksRef.current.set(key, { data: edited, meshes: [], edited: true })
+            dirtyChunksRef.current.add(key)
+
+            // I bordi dei vicini vanno aggiornati
+            ;[[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dz]) => {
+                const neighborKey = chunkKey(cx + dx, cz + dz)
+                if (chunksRef.current.has(neighborKey)) dirtyChunksRef.current.add(neighborKey)
+            })
+        }, [postToWorker])
+
+        const handleWorkerMessage = useCallback((event: MessageEvent<WorkerResponse>) => {
+            const response = event.data
+            const key = chunkKey(response.cx, response.cz)
+            if (response.generation !== generationRef.current) return
+
+            if (response.type === 'generated') {
+                pendingChunksRef.current.delete(key)
+
+                // La camera si è già allontanata
+                const center = streamingCenterRef.current
+                const distance = Math.max(Math.abs(response.cx - center.cx), Math.abs(response.cz - center.cz))
+                if (distance > chunkRadius + UNLOAD_MARGIN || chunksRef.current.has(key)) return
+                // Modifiche arrivate mentre il chunk era in generazione
+                if (editedChunksRef.current.has(key)) {
+                    loadChunk(response.cx, response.cz)
+                    return
+                }
+
+                const chunk: LoadedChunk = {
+                    data: {
+                        cx: response.cx,
+                        cz: response.cz,
+                        height: response.height,
+                        blocks: response.blocks,
+                        colors: new Map()
+                    },
+                    meshes: [],
+                    edited: false
+                }
+                chunksRef.current.set(key, chunk)
+                applyChunkMesh(chunk, response.mesh)
+
+                // Il worker non conosce le modifiche ai vicini
+                if (hasEditedNeighbor(response.cx, response.cz)) dirtyChunksRef.current.add(key)
+            } else {
+                meshingChunksRef.current.delete(key)
+                const chunk = chunksRef.current.get(key)
+                if (chunk) applyChunkMesh(chunk, response.mesh)
+
+                if (hoverStaleRef.current && meshingChunksRef.current.size === 0 && dirtyChunksRef.current.size === 0) {
+                    hoverStaleRef.current = false
+                    hoverPointerRef.current = lastPointerRef.current
+                }
+            }
+        }, [applyChunkMesh, chunkRadius, hasEditedNeighbor, loadChunk])
+
+        const unloadChunk = useCallback((key: string) => {
+            const chunk = chunksRef.current.get(key)
+            if (!chunk) return
+
+            disposeChunkMeshes(chunk)
+            if (chunk.edited) editedChunksRef.current.set(key, chunk.data)
+            chunksRef.current.delete(key)
+            dirtyChunksRef.current.delete(key)
+            meshingChunksRef.current.delete(key)
+        }, [disposeChunkMeshes])
+
+        const disposeAllChunks = useCallback(() => {
+            chunksRef.current.forEach(chunk => disposeChunkMeshes(chunk))
+            chunksRef.current.clear()
+            editedChunksRef.current.clear()
+            dirtyChunksRef.current.clear()
+            pendingChunksRef.current.clear()
+            meshingChunksRef.current.clear()
+        }, [disposeChunkMeshes])
+
+        // Dopo una modifica si ricostruisce solo il chunk del blocco,
+        // più i vicini se il blocco ne tocca il bordo
+        const markBlockDirty = useCallback((x: number, z: number) => {
+            const { cx, cz, lx, lz } = worldToChunk(x, z)
+            const keys = [chunkKey(cx, cz)]
+            if (lx === 0) keys.push(chunkKey(cx - 1, cz))
+            if (lx === CHUNK_SIZE - 1) keys.push(chunkKey(cx + 1, cz))
+            if (lz === 0) keys.push(chunkKey(cx, cz - 1))
+            if (lz === CHUNK_SIZE - 1) keys.push(chunkKey(cx, cz + 1))
+
+            keys.forEach(key => {
+                if (chunksRef.current.has(key)) dirtyChunksRef.current.add(key)
+            })
+        }, [])
+
+        // Dati del chunk per una modifica: caricato o scaricato ma già modificato
+        const getEditableChunk = useCallback((x: number, z: number) => {
+            const { cx, cz, lx, lz } = worldToChunk(x, z)
+            const key = chunkKey(cx, cz)
+            const loaded = chunksRef.current.get(key)
+            const data = loaded?.data ?? editedChunksRef.current.get(key)
+            return data ? { data, loaded, lx, lz } : null
+        }, [])
+
+        const getBlockState = useCallback((position: { x: number; y: number; z: number }): BlockState | null => {
+            const hit = getEditableChunk(position.x, position.z)
+            if (!hit || position.y < 0 || position.y >= hit.data.height) return null
+
+            const index = blockIndex(hit.lx, position.y, hit.lz)
+            const color = hit.data.colors.get(index)
+            return color === undefined ? { id: hit.data.blocks[index] } : { id: hit.data.blocks[index], color }
+        }, [getEditableChunk])
+
+        // Scrive id e colore di un blocco senza registrarlo nella cronologia
+        const applyBlockState = useCallback((position: { x: number; y: number; z: number }, state: BlockState) => {
+            const hit = getEditableChunk(position.x, position.z)
+            if (!hit || position.y < 0 || position.y >= hit.data.height) return
+
+            const index = blockIndex(hit.lx, position.y, hit.lz)
+            hit.data.blocks[index] = state.id
+            if (state.color === undefined || state.id === AIR) {
+                hit.data.colors.delete(index)
+            } else {
+                hit.data.colors.set(index, state.color)
+            }
+
+            if (hit.loaded) {
+                hit.loaded.edited = true
+                markBlockDirty(position.x, position.z)
+            }
+        }, [getEditableChunk, markBlockDirty])
+
+        // Modifiche rispetto al mondo generato, per tutti i chunk toccati
+        const getWorldEdits = useCallback((): BlockEdit[] => {
+            const generator = generatorRef.current
+            if (!generator) return []
+
+            const edited = [...editedChunksRef.current.values()]
+            chunksRef.current.forEach(chunk => {
+                if (chunk.edited) edited.push(chunk.data)
+            })
+            // L'acqua corrente non si salva: al caricamento scorre di nuovo dalle sorgenti
+            const isFlowing = (x: number, y: number, z: number) => water.isFlowing(x, y, z)
+            return edited.flatMap(data => diffChunk(data, generator.generateChunk(data.cx, data.cz), isFlowing))
+        }, [water])
+
+        const saveWorldNow = useCallback(() => {
+            if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+            saveTimerRef.current = null
+
+            const generator = generatorRef.current
+            if (!generator || isRestoringRef.current) return
+
+            const blocks = getWorldEdits()
+            // Tutte le modifiche annullate: il mondo torna quello generato
+            if (blocks.length === 0 && !signsEditedRef.current) {
+                deleteWorld(generator.seed).catch(error => console.error('Eliminazione del mondo salvato fallita:', error))
+                return
+            }
+
+            saveWorld({
+                seed: generator.seed,
+                terrain: generator.config,
+                generatorVersion: GENERATOR_VERSION,
+                reserved: generator.reserved,
+                updatedAt: Date.now(),
+                blocks,
+                signs: signsEditedRef.current ? signsRef.current : undefined
+            }).catch(error => console.error('Salvataggio del mondo fallito:', error))
+        }, [getWorldEdits])
+
+        const scheduleSave = useCallback(() => {
+            if (saveTimerRef.current) clearTimeout(saveTimerRef.current)
+            saveTimerRef.current = setTimeout(saveWorldNow, SAVE_DELAY)
+        }, [saveWorldNow])
+
+        // Salva subito se c'è un salvataggio in attesa
+        const flushSave = useCallback(() => {
+            if (saveTimerRef.current) saveWorldNow()
+        }, [saveWorldNow])
+
+        const restoreSavedWorld = useCallback((saved: SavedWorld) => {
+            const generator = generatorRef.current!
+
+            groupEditsByChunk(saved.blocks).forEach(({ cx, cz, edits }, key) => {
+                const loaded = chunksRef.current.get(key)
+                const data = loaded?.data ?? editedChunksRef.current.get(key) ?? generator.generateChunk(cx, cz)
+                applyEditsToChunk(data, edits)
+
+                if (loaded) {
+                    loaded.edited = true
+                    edits.forEach(edit => markBlockDirty(edit.x, edit.z))
+                } else {
+                    editedChunksRef.current.set(key, data)
+                }
+            })
+
+            // L'acqua riprende a scorrere attorno alle modifiche
+            saved.blocks.forEach(edit => water.wake(edit.x, edit.y, edit.z))
+
+            if (saved.signs) {
+                signsEditedRef.current = true
+                setSigns(saved.signs)
+            }
+        }, [markBlockDirty, water])
+
+        // Il blocco sotto il puntatore può essere cambiato o sparito: niente hover fino alle nuove mesh
+        const invalidateHover = useCallback(() => {
+            if (!onBlockHover) return
+            hoverStaleRef.current = true
+            if (hoveredKeyRef.current === null) return
+            hoveredKeyRef.current = null
+            onBlockHover(null)
+        }, [onBlockHover])
+
+        /**
+         * Libera dalle decorazioni il terreno attorno a un nuovo cartello. Cambia il terreno di base,
+         * quindi i chunk vicini si rigenerano e riapplicano le loro differenze da quello vecchio.
+         */
+        const reserveSignArea = useCallback((sign: SignData) => {
+            const generator = generatorRef.current
+            const [area] = getReservedAreas([sign])
+            if (!generator || generator.reserved.some(other => other.x === area.x && other.z === area.z)) return
+
+            const next = createTerrainGenerator(generator.seed, generator.config, [...generator.reserved, area])
+            generatorRef.current = next
+
+            // Un blocco in più per aggiornare i bordi dei chunk vicini
+            const reach = RESERVED_REACH + 1
+            const min = worldToChunk(area.x - reach, area.z - reach)
+            const max = worldToChunk(area.x + reach, area.z + reach)
+            for (let cz = min.cz; cz <= max.cz; cz++) {
+                for (let cx = min.cx; cx <= max.cx; cx++) {
+                    const key = chunkKey(cx, cz)
+                    const loaded = chunksRef.current.get(key)
+                    const data = loaded?.data ?? editedChunksRef.current.get(key)
+                    if (!data) continue
+
+                    const rebased = next.generateChunk(cx, cz)
+                    applyEditsToChunk(rebased, diffChunk(data, generator.generateChunk(cx, cz)))
+                    if (loaded) {
+                        loaded.data = rebased
+                        dirtyChunksRef.current.add(key)
+                    } else {
+                        editedChunksRef.current.set(key, rebased)
+                    }
+                }
+            }
+        }, [])
+
+        // Tutte le modifiche dell'utente passano da qui e finiscono nella cronologia
+        const commitEdit = useCallback((
+            position: { x: number; y: number; z: number },
+            kind: EditKind,
+            update: (before: BlockState) => BlockState | null
+        ) => {
+            const before = getBlockState(position)
+            if (!before) return
+            const after = update(before)
+            if (!after || (after.id === before.id && after.color === before.color)) return
+
+            applyBlockState(position, after)
+            history.record({ position: { ...position }, before, after }, kind)
+            water.wake(position.x, position.y, position.z)
+            invalidateHover()
+            scheduleSave()
+        }, [applyBlockState, getBlockState, history, invalidateHover, scheduleSave, water])
 
         const worldInstance: VoxelWorldInstance = useMemo(() => ({
             removeBlock: (position: { x: number; y: number; z: number }) => {
-                const key = `${position.x},${position.y},${position.z}`
-                setWorldData(prev => {
-                    const newData = new Map(prev)
-                    newData.delete(key)
-                    return newData
-                })
-                setNeedsFullRebuild(true)
+                commitEdit(position, 'remove', () => ({ id: AIR }))
             },
+            // Si può costruire anche dentro l'acqua, sostituendola
             addBlock: (position: { x: number; y: number; z: number }, type: string) => {
-                if (type === 'water') return
-                const key = `${position.x},${position.y},${position.z}`
-                setWorldData(prev => {
-                    const newData = new Map(prev)
-                    if (!newData.has(key)) {
-                        newData.set(key, { position, type })
-                    }
-                    return newData
-                })
-                setNeedsFullRebuild(true)
+                const id = getBlockId(type)
+                if (id <= AIR) return
+                commitEdit(position, 'add', before => !isSolidBlock(before.id) && before.id !== id ? { id } : null)
             },
             changeBlock: (position: { x: number; y: number; z: number }, newType: string) => {
-                if (newType === 'water') return
-                const key = `${position.x},${position.y},${position.z}`
-                setWorldData(prev => {
-                    const newData = new Map(prev)
-                    const block = newData.get(key)
-                    if (block && block.type !== 'water') {
-                        newData.set(key, { ...block, type: newType })
-                    }
-                    return newData
-                })
-                setNeedsFullRebuild(true)
+                const id = getBlockId(newType)
+                if (id <= AIR) return
+                // L'acqua non ha colore personalizzato
+                commitEdit(position, 'change', before => isSolidBlock(before.id) ? (id === WATER ? { id } : { ...before, id }) : null)
             },
             setBlockColor: (position: { x: number; y: number; z: number }, color: string | number) => {
-                const key = `${position.x},${position.y},${position.z}`
-                setWorldData(prev => {
-                    const newData = new Map(prev)
-                    const block = newData.get(key)
-                    if (block) {
-                        newData.set(key, { ...block, color })
-                    }
-                    return newData
-                })
-                setNeedsFullRebuild(true)
+                commitEdit(position, 'color', before => isSolidBlock(before.id) ? { ...before, color } : null)
+            },
+            setBlockOutline: (position: { x: number; y: number; z: number }, color: string | number, emissiveIntensity: number, outlineId = 'selection') => {
+                outlines.set(position, color, emissiveIntensity, outlineId)
             },
-            setBlockOutline: () => {},
-            removeBlockOutline: () => {}
-        }), []) // IMPORTANTE: Dependenze vuote per evitare ricreazioni
+            removeBlockOutline: (position: { x: number; y: number; z: number }, outlineId = 'selection') => {
+                outlines.remove(position, outlineId)
+            },
+            getBiome: (position: { x: number; y: number; z: number }) => {
+                return generatorRef.current?.getBiome(position.x, position.z) ?? DEFAULT_BIOME
+            }
+        }), [commitEdit, outlines])
+
+        const createBlock = useCallback((x: number, y: number, z: number, allowWater = false) => {
+            const id = getBlockIdAt(x, y, z)
+            if (!isSolidBlock(id) && !(allowWater && id === WATER)) return null
+            return new Block({ x, y, z }, getBlockTypeName(id), new THREE.Vector3(x, y, z), worldInstance)
+        }, [getBlockIdAt, worldInstance])
+
+        /**
+         * Blocchi in superficie sopra il livello del mare nei chunk attorno all'origine, in ordine
+         * deterministico. La regione è fissa: stesso seed => stessi blocchi, ovunque sia la camera.
+         * I chunk non ancora caricati si generano qui, con le eventuali modifiche.
+         */
+        const getSurfaceBlocks = useCallback((): BlockData[] => {
+            const generator = generatorRef.current
+            if (!generator) return []
+
+            const surfaceBlocks: BlockData[] = []
+            const waterLevel = generator.config.waterLevel
+            const chunks: ChunkData[] = []
+            for (let cz = -SAMPLE_CHUNK_RADIUS; cz <= SAMPLE_CHUNK_RADIUS; cz++) {
+                for (let cx = -SAMPLE_CHUNK_RADIUS; cx <= SAMPLE_CHUNK_RADIUS; cx++) {
+                    const key = chunkKey(cx, cz)
+                    chunks.push(chunksRef.current.get(key)?.data ?? editedChunksRef.current.get(key) ?? generator.generateChunk(cx, cz))
+                }
+            }
+
+            chunks.forEach(data => {
+                for (let lz = 0; lz < CHUNK_SIZE; lz++) {
+                    for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+                        let y = data.height - 1
+                        while (y >= 0 && data.blocks[blockIndex(lx, y, lz)] === AIR) y--
+                        if (y < waterLevel) continue
+
+                        const id = data.blocks[blockIndex(lx, y, lz)]
+                        if (id === WATER) continue
+                        surfaceBlocks.push({
+                            position: { x: data.cx * CHUNK_SIZE + lx, y, z: data.cz * CHUNK_SIZE + lz },
+                            type: getBlockTypeName(id)
+                        })
+                    }
+                }
+            })
+
+            return surfaceBlocks
+        }, [])
 
         const getBlockAtMouse = useCallback((clientX: number, clientY: number) => {
-            if (!groupRef.current) return null
+            if (!chunksGroupRef.current) return null
 
             const rect = gl.domElement.getBoundingClientRect()
             mouse.x = ((clientX - rect.left) / rect.width) * 2 - 1
             mouse.y = -((clientY - rect.top) / rect.height) * 2 + 1
 
             raycaster.setFromCamera(mouse, camera)
-            const intersects = raycaster.intersectObject(groupRef.current, true)
+            // Solo le mesh dei chunk, più i cartelli che coprono i blocchi dietro (niente contorni).
+            // Si colpiscono i blocchi sommersi, o l'acqua stessa se `targetWater`
+            const targets = signsGroupRef.current ? [chunksGroupRef.current, signsGroupRef.current] : [chunksGroupRef.current]
+            const hit = raycaster.intersectObjects(targets, true)
+                .find(intersect => targetWater || !intersect.object.userData.isWater)
 
-            if (intersects.length > 0) {
-                const hit = intersects[0]
+            if (hit && hit.object.parent === chunksGroupRef.current) {
                 const point = hit.point
-                const normal = hit.face?.normal || new THREE.Vector3(0, 1, 0)
+                const normal = hit.face?.normal.clone().round() || new THREE.Vector3(0, 1, 0)
                 const blockPos = point.clone().sub(normal.clone().multiplyScalar(0.5))
                 const blockX = Math.round(blockPos.x)
                 const blockY = Math.round(blockPos.y)
                 const blockZ = Math.round(blockPos.z)
-                const blockKey = `${blockX},${blockY},${blockZ}`
-                const blockData = worldDataRef.current.get(blockKey)
+                const block = createBlock(blockX, blockY, blockZ, targetWater)
 
-                if (blockData && blockData.type !== 'water') {
+                if (block) {
                     return {
-                        key: blockKey,
-                        block: new Block(
-                            blockData.position,
-                            blockData.type,
-                            new THREE.Vector3(blockX, blockY, blockZ),
-                            worldInstance
-                        )
+                        key: `${blockX},${blockY},${blockZ}`,
+                        block,
+                        normal,
+                        // Cella vuota adiacente alla faccia colpita
+                        adjacent: { x: blockX + normal.x, y: blockY + normal.y, z: blockZ + normal.z }
                     }
                 }
             }
             return null
-        }, [gl, camera, raycaster, mouse, worldInstance])
-
-        // Ricostruzione mesh semplificata
-        useEffect(() => {
-            if (!needsFullRebuild) return
-
-            meshes.forEach(({ mesh }) => mesh.geometry.dispose())
-            if (waterMesh) {
-                waterMesh.geometry.dispose()
-                ;(waterMesh.material as THREE.Material).dispose()
-            }
-
-            const blocksByType: { [key: string]: THREE.Vector3[] } = {}
-            const waterPositions: THREE.Vector3[] = []
+        }, [gl, camera, raycaster, mouse, createBlock, targetWater])
 
-            worldData.forEach((block) => {
-                const pos = new THREE.Vector3(block.position.x, block.position.y, block.position.z)
-                if (block.type === 'water') {
-                    waterPositions.push(pos)
-                } else {
-                    if (!blocksByType[block.type]) blocksByType[block.type] = []
-                    blocksByType[block.type].push(pos)
-                }
-            })
-
-            const newMeshes: { mesh: THREE.Mesh; type: string }[] = []
+        /**
+         * `terrain`: parametri scelti esplicitamente; senza, si usano quelli attuali o quelli del mondo salvato.
+         * `restored`: modifiche da applicare al posto di quelle salvate (es. file importato).
+         */
+        const generateWorld = useCallback((
+            requestedSeed?: number | string,
+            options: { terrain?: TerrainConfig; restored?: SavedWorld } = {}
+        ) => {
+            const { restored } = options
+            // Stesso seed => stesso mondo, blocco per blocco
+            const newSeed = requestedSeed === undefined ? randomSeed() : hashSeed(requestedSeed)
+            setSeed(newSeed)
+            onSeedChange?.(newSeed)
+            randomRef.current = createRandom(`${newSeed}:blocks`)
 
-            Object.entries(blocksByType).forEach(([type, positions]) => {
-                if (positions.length === 0) return
+            flushSave()
+            disposeAllChunks()
+            outlines.clear()
+            history.clear()
+            water.clear()
+            hoveredKeyRef.current = null
+            generationRef.current++
+            isLoadingRef.current = true
+            loadingProgressRef.current = 0
+            onLoadingProgress?.(0)
 
-                const geometries = positions.map(pos => {
-                    const geometry = new THREE.BoxGeometry(1, 1, 1)
-                    geometry.translate(pos.x, pos.y, pos.z)
-                    return geometry
-                })
-
-                const mergedGeometry = BufferGeometryUtils.mergeGeometries(geometries, false)
-                geometries.forEach(g => g.dispose())
+            // Alberi e rovine non nascono sotto i cartelli: quelli iniziali o quelli del mondo salvato
+            const startGenerator = (config: TerrainConfig, reserved = getReservedAreas(initialSigns)) => {
+                const generator = createTerrainGenerator(newSeed, config, reserved)
+                generatorRef.current = generator
+                terrainRef.current = config
+                setTerrainConfig(config)
+                onTerrainChange?.(config)
+                setSigns(initialSigns.map(sign => snapSignToTerrain(sign, generator)))
+            }
+            startGenerator(options.terrain ?? terrainRef.current)
+            signsEditedRef.current = false
 
-                const mesh = new THREE.Mesh(mergedGeometry, materials[type as keyof typeof materials])
-                mesh.castShadow = true
-                mesh.receiveShadow = true
-                newMeshes.push({ mesh, type })
-            })
+            // Ripristina le modifiche salvate per questo seed prima di caricare i chunk
+            const generation = generationRef.current
+            isRestoringRef.current = true
+            ;(restored ? Promise.resolve(restored) : loadWorld(newSeed))
+                .then(saved => {
+                    if (!saved || generation !== generationRef.current) return
+                    if (saved.generatorVersion !== GENERATOR_VERSION) {
+                        console.warn(`Le modifiche per il seed ${newSeed} usano un altro generatore del terreno e verranno ignorate`)
+                        return
+                    }
 
-            // Acqua con shader animato
-            if (waterPositions.length > 0) {
-                const waterGeometry = new THREE.PlaneGeometry(WORLD_SIZE, WORLD_SIZE, 32, 32)
-                waterGeometry.rotateX(-Math.PI / 2)
-                waterGeometry.translate(0, WATER_LEVEL + 0.3, 0)
-                
-                const waterMaterial = new THREE.ShaderMaterial({
-                    vertexShader: waterVertexShader,
-                    fragmentShader: waterFragmentShader,
-                    transparent: true,
-                    uniforms: {
-                        time: { value: 0 }
+                    const isSameTerrain = isSameTerrainConfig(saved.terrain, terrainRef.current)
+                    if (!isSameTerrain && options.terrain) {
+                        console.warn(`Le modifiche salvate per il seed ${newSeed} usano altri parametri del terreno e verranno sovrascritte`)
+                        return
+                    }
+                    if (!isSameTerrain || !isSameReserved(saved.reserved, generatorRef.current!.reserved)) {
+                        startGenerator(saved.terrain, saved.reserved)
                     }
+                    restoreSavedWorld(saved)
+                    if (restored) scheduleSave()
+                })
+                .catch(error => console.error('Caricamento del mondo salvato fallito:', error))
+                .finally(() => {
+                    if (generation === generationRef.current) isRestoringRef.current = false
                 })
+        }, [disposeAllChunks, flushSave, history, initialSigns, onLoadingProgress, onSeedChange, onTerrainChange, outlines, restoreSavedWorld, scheduleSave, water])
 
-                const water = new THREE.Mesh(waterGeometry, waterMaterial)
-                water.receiveShadow = true
-                setWaterMesh(water)
-            } else {
-                setWaterMesh(null)
+        // Punto attorno a cui caricare i chunk: target dei controlli dello store di R3F
+        // (gli OrbitControls di drei) o punto guardato a terra
+        const getStreamingFocus = (controls: THREE.EventDispatcher | null) => {
+            if (controls && 'target' in controls && controls.target instanceof THREE.Vector3) {
+                return streamingFocus.copy(controls.target)
             }
 
-            setMeshes(newMeshes)
-            setNeedsFullRebuild(false)
-        }, [worldData, needsFullRebuild, materials])
+            raycaster.setFromCamera(new THREE.Vector2(0, 0), camera)
+            const hit = raycaster.ray.intersectPlane(groundPlane, streamingFocus)
+            const maxDistance = chunkRadius * CHUNK_SIZE * 4
+            if (!hit || hit.distanceTo(camera.position) > maxDistance) {
+                streamingFocus.copy(camera.position)
+            }
+            return streamingFocus
+        }
 
-        const generateWorld = useCallback(() => {
-            setIsGenerating(true)
+        // Streaming: carica i chunk vicini, scarica quelli lontani, ricostruisce quelli modificati.
+        // Generazione e meshing avvengono nel worker, qui si inviano solo le richieste
+        useFrame((state) => {
+            if (!generatorRef.current || !workerRef.current || !chunksGroupRef.current) return
+            if (isRestoringRef.current) return
 
-            requestAnimationFrame(() => {
-                const newSeed = Math.floor(Math.random() * 1000000)
-                setSeed(newSeed)
-                const noise2D = createNoise2D(() => (newSeed * 9301 + 49297) % 233280 / 233280)
+            const focus = getStreamingFocus(state.controls)
+            const center = worldToChunk(Math.floor(focus.x), Math.floor(focus.z))
+            streamingCenterRef.current = center
 
-                const heightMap: number[][] = Array(WORLD_SIZE).fill(null).map(() => Array(WORLD_SIZE).fill(0))
+            chunksRef.current.forEach((chunk, key) => {
+                const distance = Math.max(
+                    Math.abs(chunk.data.cx - center.cx),
+                    Math.abs(chunk.data.cz - center.cz)
+                )
+                if (distance > chunkRadius + UNLOAD_MARGIN) unloadChunk(key)
+            })
 
-                for (let x = 0; x < WORLD_SIZE; x++) {
-                    for (let z = 0; z < WORLD_SIZE; z++) {
-                        const worldX = x - WORLD_SIZE / 2
-                        const worldZ = z - WORLD_SIZE / 2
-                        const noiseValue = getFractalNoise(noise2D, worldX / NOISE_SCALE, worldZ / NOISE_SCALE)
-                        heightMap[x][z] = Math.floor(((noiseValue + 1) / 2) * MAX_HEIGHT) + TERRAIN_OFFSET
-                    }
-                    if (onLoadingProgress && x % 4 === 0) {
-                        onLoadingProgress((x / WORLD_SIZE) * 50)
+            const missing: { cx: number; cz: number; distance: number }[] = []
+            for (let dz = -chunkRadius; dz <= chunkRadius; dz++) {
+                for (let dx = -chunkRadius; dx <= chunkRadius; dx++) {
+                    const cx = center.cx + dx
+                    const cz = center.cz + dz
+                    const key = chunkKey(cx, cz)
+                    if (!chunksRef.current.has(key) && !pendingChunksRef.current.has(key)) {
+                        missing.push({ cx, cz, distance: dx * dx + dz * dz })
                     }
                 }
+            }
+            missing.sort((a, b) => a.distance - b.distance)
 
-                const newWorldData = new Map<string, BlockData>()
-                const newSurfaceBlocks: BlockData[] = []
+            const freeSlots = MAX_PENDING_CHUNKS - pendingChunksRef.current.size
+            missing.slice(0, Math.max(0, freeSlots)).forEach(({ cx, cz }) => loadChunk(cx, cz))
 
-                for (let x = 0; x < WORLD_SIZE; x++) {
-                    for (let z = 0; z < WORLD_SIZE; z++) {
-                        const worldX = x - WORLD_SIZE / 2
-                        const worldZ = z - WORLD_SIZE / 2
-                        const surfaceHeight = heightMap[x][z]
+            for (const key of dirtyChunksRef.current) {
+                // Una richiesta alla volta per chunk, le modifiche successive restano in coda
+                if (meshingChunksRef.current.has(key)) continue
+                dirtyChunksRef.current.delete(key)
+                requestChunkMesh(key)
+            }
 
-                        for (let y = 0; y < Math.max(surfaceHeight + 1, WATER_LEVEL + 1); y++) {
-                            if (y > MAX_HEIGHT || (y > surfaceHeight && y > WATER_LEVEL)) continue
-                            if (!isBlockVisible(x, y, z, heightMap)) continue
+            if (isLoadingRef.current) {
+                const total = (chunkRadius * 2 + 1) ** 2
+                let loaded = 0
+                chunksRef.current.forEach(({ data }) => {
+                    if (Math.abs(data.cx - center.cx) <= chunkRadius && Math.abs(data.cz - center.cz) <= chunkRadius) loaded++
+                })
 
-                            const blockType = getBlockType(y, surfaceHeight)
-                            const key = `${worldX},${y},${worldZ}`
-                            const blockData: BlockData = { position: { x: worldX, y, z: worldZ }, type: blockType }
+                const progress = Math.floor((loaded / total) * 100)
+                if (progress >= 100) {
+                    isLoadingRef.current = false
+                    onLoadingProgress?.(100)
+                } else if (progress !== loadingProgressRef.current) {
+                    loadingProgressRef.current = progress
+                    onLoadingProgress?.(progress)
+                }
+            }
+        })
 
-                            newWorldData.set(key, blockData)
+        // Acqua: onde animate e qualche passo di scorrimento al secondo
+        useFrame((state, delta) => {
+            waterMaterial.uniforms.time.value = state.clock.elapsedTime
 
-                            if (y === surfaceHeight && blockType !== 'water' && surfaceHeight >= WATER_LEVEL) {
-                                newSurfaceBlocks.push(blockData)
-                            }
-                        }
-                    }
-                }
+            const generator = generatorRef.current
+            if (!generator || isRestoringRef.current || water.isIdle) return
+            waterTimerRef.current += delta
+            if (waterTimerRef.current < WATER_STEP_INTERVAL) return
+            waterTimerRef.current = 0
 
-                setWorldData(newWorldData)
-                setSurfaceBlocksData(newSurfaceBlocks)
-                setNeedsFullRebuild(true)
-                setIsGenerating(false)
-                onLoadingProgress?.(100)
+            const changed = water.step({
+                getId: (x, y, z) => getBlockState({ x, y, z })?.id ?? null,
+                setWater: (x, y, z) => applyBlockState({ x, y, z }, { id: WATER }),
+                setAir: (x, y, z) => applyBlockState({ x, y, z }, { id: AIR }),
+                waterLevel: generator.config.waterLevel
             })
-        }, [onLoadingProgress])
+            if (changed.length > 0) scheduleSave()
+        })
 
         // Event handlers semplificati
-        const handleClick = useCallback((event: any) => {
+        const pointerDownRef = useRef({ x: 0, y: 0 })
+
+        const handlePointerDown = useCallback((event: PointerEvent) => {
+            pointerDownRef.current = { x: event.clientX, y: event.clientY }
+        }, [])
+
+        const handleClick = useCallback((event: MouseEvent) => {
             if (!onBlockClick) return
+            // Un trascinamento (orbita o pan) non è un click
+            const dx = event.clientX - pointerDownRef.current.x
+            const dy = event.clientY - pointerDownRef.current.y
+            if (dx * dx + dy * dy > 25) return
+
             const result = getBlockAtMouse(event.clientX, event.clientY)
-            onBlockClick(result?.block || null)
+            onBlockClick(result?.block || null, result ? {
+                normal: result.normal,
+                adjacent: result.adjacent,
+                button: event.button,
+                shiftKey: event.shiftKey
+            } : undefined)
         }, [getBlockAtMouse, onBlockClick])
 
         useEffect(() => {
             const canvas = gl.domElement
+            canvas.addEventListener('pointerdown', handlePointerDown)
             canvas.addEventListener('click', handleClick)
-            return () => canvas.removeEventListener('click', handleClick)
-        }, [gl, handleClick])
+            // Click destro (il menu contestuale è già bloccato da OrbitControls)
+            canvas.addEventListener('auxclick', handleClick)
+            return () => {
+                canvas.removeEventListener('pointerdown', handlePointerDown)
+                canvas.removeEventListener('click', handleClick)
+                canvas.removeEventListener('auxclick', handleClick)
+            }
+        }, [gl, handleClick, handlePointerDown])
+
+        // Hover: il raycast avviene al massimo una volta per frame
+        useEffect(() => {
+            if (!onBlockHover) return
+            const canvas = gl.domElement
+            const handlePointerMove = (event: PointerEvent) => {
+                hoverPointerRef.current = { x: event.clientX, y: event.clientY }
+                lastPointerRef.current = hoverPointerRef.current
+            }
+            canvas.addEventListener('pointermove', handlePointerMove)
+            return () => canvas.removeEventListener('pointermove', handlePointerMove)
+        }, [gl, onBlockHover])
+
+        useFrame(() => {
+            const pointer = hoverPointerRef.current
+            if (!pointer || !onBlockHover) return
+            hoverPointerRef.current = null
+
+            const result = getBlockAtMouse(pointer.x, pointer.y)
+            // Anche la faccia conta, per l'anteprima di costruzione
+            const key = result ? `${result.key}|${result.normal.toArray()}` : null
+            if (key === hoveredKeyRef.current) return
+            hoveredKeyRef.current = key
+            onBlockHover(result?.block || null, result ? {
+                normal: result.normal,
+                adjacent: result.adjacent,
+                button: -1,
+                shiftKey: false
+            } : undefined)
+        })
 
         React.useImperativeHandle(ref, () => ({
-            regenerate: generateWorld,
+            regenerate: (seed?: number | string, terrain?: TerrainConfig) => generateWorld(seed, { terrain }),
+            getTerrainConfig: () => terrainRef.current,
+            // Vale per qualsiasi disposizione di blocchi, anche dentro grotte e sotto sporgenze
             isBlockVisible: (targetBlock: THREE.Vector3, camera: THREE.Camera): boolean => {
-                // Semplificato
-                return true
+                const target = targetBlock.clone().round()
+                const eye = camera.position.clone().round()
+                return !traverseVoxels(camera.position, targetBlock, (x, y, z) => {
+                    if (x === target.x && y === target.y && z === target.z) return false
+                    if (x === eye.x && y === eye.y && z === eye.z) return false
+                    return isSolidBlock(getBlockIdAt(x, y, z))
+                })
             },
             getSeed: () => seed,
-            getBlock: (x: number, y: number, z: number) => {
-                const key = `${x},${y},${z}`
-                const blockData = worldDataRef.current.get(key)
-                if (blockData && blockData.type !== 'water') {
-                    return new Block(blockData.position, blockData.type, new THREE.Vector3(x, y, z), worldInstance)
-                }
-                return null
+            getBlock: (x: number, y: number, z: number) => createBlock(x, y, z),
+            isWater: (x: number, y: number, z: number) => getBlockIdAt(x, y, z) === WATER,
+            addBlock: (x: number, y: number, z: number, type: string) => {
+                worldInstance.addBlock({ x, y, z }, type)
             },
+            undo: () => {
+                const step = history.undo()
+                if (!step) return false
+                ;[...step].reverse().forEach(change => {
+                    applyBlockState(change.position, change.before)
+                    water.wake(change.position.x, change.position.y, change.position.z)
+                })
+                invalidateHover()
+                scheduleSave()
+                return true
+            },
+            redo: () => {
+                const step = history.redo()
+                if (!step) return false
+                step.forEach(change => {
+                    applyBlockState(change.position, change.after)
+                    water.wake(change.position.x, change.position.y, change.position.z)
+                })
+                invalidateHover()
+                scheduleSave()
+                return true
+            },
+            batchEdits: (edits: () => void) => history.batch(edits),
             getRandomBlock: () => {
-                const validBlocks = surfaceBlocksData.filter(block => 
-                    block.type !== 'water' && block.position.y >= WATER_LEVEL
-                )
+                const validBlocks = getSurfaceBlocks()
                 if (validBlocks.length === 0) return null
-                
-                const randomIndex = Math.floor(Math.random() * validBlocks.length)
+
+                const randomIndex = Math.floor(randomRef.current() * validBlocks.length)
                 const blockData = validBlocks[randomIndex]
                 return new Block(blockData.position, blockData.type, 
                     new THREE.Vector3(blockData.position.x, blockData.position.y, blockData.position.z), worldInstance)
             },
             getRandomSurfaceBlocks: (count: number) => {
-                const validBlocks = surfaceBlocksData.filter(block => 
-                    block.type !== 'water' && block.position.y >= WATER_LEVEL
-                )
-                const shuffled = [...validBlocks].sort(() => Math.random() - 0.5).slice(0, count)
+                const validBlocks = getSurfaceBlocks()
+                const shuffled = shuffle(validBlocks, randomRef.current).slice(0, count)
                 return shuffled.map(blockData => new Block(blockData.position, blockData.type,
                     new THREE.Vector3(blockData.position.x, blockData.position.y, blockData.position.z), worldInstance))
             },
             addSign: (signData: SignData) => {
+                reserveSignArea(signData)
                 setSigns(prev => [...prev.filter(s => s.id !== signData.id), signData])
+                signsEditedRef.current = true
+                scheduleSave()
             },
             removeSign: (signId: string) => {
                 setSigns(prev => prev.filter(s => s.id !== signId))
+                signsEditedRef.current = true
+                scheduleSave()
+            },
+            getSigns: () => signsRef.current,
+            exportWorld: ((format = 'json') => {
+                const generator = generatorRef.current!
+                const file = createWorldFile(generator.seed, generator.config, generator.reserved, getWorldEdits(), signsRef.current)
+                return encodeWorldFile(file, format)
+            }) as VoxelWorldRef['exportWorld'],
+            importWorld: (data: string | ArrayBuffer | Uint8Array) => {
+                const file = decodeWorldFile(data)
+                generateWorld(file.seed, {
+                    terrain: file.terrain,
+                    restored: {
+                        seed: file.seed,
+                        terrain: file.terrain,
+                        generatorVersion: file.generatorVersion,
+                        reserved: file.reserved,
+                        updatedAt: Date.now(),
+                        blocks: file.blocks,
+                        signs: file.signs
+                    }
+                })
             },
-            getSigns: () => signsRef.current
-        }), [generateWorld, seed, surfaceBlocksData, worldInstance])
+            exportModel: (options: ModelExportOptions) => exportModel({
+                name: `mondo-${generatorRef.current!.seed}`,
+                chunks: [...chunksRef.current.values()].map(chunk => chunk.data),
+                getColumn,
+                signs: signsGroupRef.current?.children ?? []
+            }, options)
+        }), [generateWorld, seed, createBlock, getSurfaceBlocks, worldInstance, history, applyBlockState, scheduleSave, getWorldEdits, getColumn, getBlockIdAt, water, reserveSignArea, invalidateHover])
 
         useEffect(() => {
-            generateWorld()
+            const worker = new Worker(new URL('../world/terrain.worker.ts', import.meta.url))
+            workerRef.current = worker
             return () => {
-                meshes.forEach(({ mesh }) => {
-                    mesh.geometry.dispose()
-                    if (mesh.material instanceof THREE.Material) mesh.material.dispose()
-                })
-                if (waterMesh) {
-                    waterMesh.geometry.dispose()
-                    if (waterMesh.material instanceof THREE.Material) waterMesh.material.dispose()
-                }
+                worker.terminate()
+                workerRef.current = null
+                pendingChunksRef.current.clear()
+                meshingChunksRef.current.clear()
+            }
+        }, [])
+
+        useEffect(() => {
+            if (workerRef.current) workerRef.current.onmessage = handleWorkerMessage
+        }, [handleWorkerMessage])
+
+        // Non perdere le ultime modifiche chiudendo o ricaricando la pagina
+        useEffect(() => {
+            window.addEventListener('pagehide', flushSave)
+            return () => window.removeEventListener('pagehide', flushSave)
+        }, [flushSave])
+
+        useEffect(() => {
+            generateWorld(initialSeed)
+            return () => {
+                flushSave()
+                disposeAllChunks()
+                outlines.dispose()
+                Object.values(materials).forEach(material => material.dispose())
+                waterMaterial.dispose()
             }
         }, [])
 
         return (
             <group ref={groupRef} userData={{ isVoxelWorld: true }}>
-                {meshes.map(({ mesh }, index) => (
-                    <primitive key={`${seed}-${index}`} object={mesh} />
-                ))}
-                {waterMesh && <primitive object={waterMesh} />}
-                {signs.map((sign) => (
-                    <MemoizedSign
-                        key={sign.id}
-                        signData={sign}
-                        onSignCameraMove={onSignCameraMove}
-                    />
-                ))}
+                {/* Le mesh dei chunk sono gestite imperativamente dallo streaming */}
+                <group ref={chunksGroupRef} />
+                <primitive object={outlines.group} />
+                <group ref={signsGroupRef}>
+                    {signs.map((sign) => (
+                        <MemoizedSign
+                            key={sign.id}
+                            signData={sign}
+                            onSignCameraMove={handleSignCameraMove}
+                            onSignInteract={handleSignInteract}
+                        />
+                    ))}
+                </group>
             </group>
         )
     }
@@ -9,7 +9,7 @@ export const signsData: SignData[] = [
       body: [
         'Esplora questo mondo voxel',
         'Clicca sui blocchi per muoverti',
-        'Trova tutti i cartelli nascosti',
+        'Trova **tutti** i cartelli nascosti',
         'Scopri la mia storia'
       ],
       footer: 'Creato con ❤️ e Three.js'
@@ -75,7 +75,7 @@ Creo esperienze interattive uniche`,
         'Audio Visualizer',
         'Shader Collection'
       ],
-      footer: 'github.com/tuousername'
+      footer: '[GitHub](https://github.com/tuousername)'
     },
     style: {
       backgroundColor: '#130f40',
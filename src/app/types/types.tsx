@@ -1,4 +1,20 @@
 import * as THREE from 'three'
+import type { ExportedFile, ModelExportOptions } from '../world/exporter'
+import type { TerrainConfig } from '../world/terrain'
+import type { Biome } from '../world/biomes'
+import type { ReservedArea } from '../world/decorations'
+
+export interface DayNightCycleProps {
+    // Ora del giorno in ore [0, 24)
+    timeOfDay: number
+}
+
+export interface FirstPersonControllerProps {
+    voxelWorldRef: React.RefObject<VoxelWorldRef | null>
+    // Vista al momento dell'uscita, per riprendere con la camera orbitale
+    onExit?: (pose: CameraPose) => void
+    onLockChange?: (locked: boolean) => void
+}
 
 export interface CameraControllerProps {
     lookAtTarget: THREE.Vector3 | null
@@ -9,8 +25,27 @@ export interface CameraControllerProps {
         startPosition: THREE.Vector3
         startTarget: THREE.Vector3
     } | null
+    viewPose?: CameraPose | null
+    onCameraChange?: (pose: CameraPose) => void
 }
 
+export interface CameraPose {
+    position: THREE.Vector3
+    target: THREE.Vector3
+}
+
+/** Stato condivisibile tramite URL: seed, vista della camera e blocco selezionato */
+export interface WorldUrlState {
+    seed?: number | string
+    camera?: CameraPose
+    block?: { x: number; y: number; z: number }
+}
+
+/**
+ * Contenuto di un cartello. Corpo e footer accettano markdown leggero:
+ * **grassetto**, [testo](url), ![alt](/immagine.png) da /public; nel corpo una
+ * riga '---' inizia una nuova pagina, e il testo in eccesso passa da solo alla successiva.
+ */
 export interface SignContent {
     title: string
     body: string | string[] // può essere testo o lista di stringhe
@@ -88,6 +123,10 @@ export class Block {
         return this.worldPosition.clone()
     }
 
+    getBiome(): Biome | null {
+        return this.worldRef ? this.worldRef.getBiome(this.position) : null
+    }
+
     remove() {
         if (this.worldRef) {
             this.worldRef.removeBlock(this.position)
@@ -95,7 +134,7 @@ export class Block {
     }
 
     change(newType: string) {
-        if (this.worldRef && newType !== 'water') {
+        if (this.worldRef) {
             this.worldRef.changeBlock(this.position, newType)
             this.type = newType
         }
@@ -107,39 +146,84 @@ export class Block {
         }
     }
 
-    setOutline(color: string | number, emissiveIntensity: number) {
+    // outlineId distingue contorni simultanei sullo stesso blocco (es. hover e selezione)
+    setOutline(color: string | number, emissiveIntensity: number, outlineId: string = 'selection') {
         if (this.worldRef) {
-            this.worldRef.setBlockOutline(this.position, color, emissiveIntensity)
+            this.worldRef.setBlockOutline(this.position, color, emissiveIntensity, outlineId)
         }
     }
 
-    removeOutline() {
+    removeOutline(outlineId: string = 'selection') {
         if (this.worldRef) {
-            this.worldRef.removeBlockOutline(this.position)
+            this.worldRef.removeBlockOutline(this.position, outlineId)
         }
     }
 }
 
+// Dettagli del puntatore su un blocco: faccia colpita e cella adiacente
+export interface BlockPointerInfo {
+    normal: THREE.Vector3
+    adjacent: { x: number; y: number; z: number }
+    button: number
+    shiftKey: boolean
+}
+
 // Tipo per callback click
-export type BlockClickCallback = (block: Block | null) => void
+export type BlockClickCallback = (block: Block | null, info?: BlockPointerInfo) => void
 export type SignCameraMoveCallback = (target: THREE.Vector3) => void
+export type SignInteractCallback = (sign: SignData) => void
 
 export interface VoxelWorldProps {
+    initialSeed?: number | string
+    onSeedChange?: (seed: number) => void
     onLoadingProgress?: LoadingCallback
     onBlockClick?: BlockClickCallback
+    onBlockHover?: BlockClickCallback
     onSignCameraMove?: SignCameraMoveCallback
+    // Click su un cartello, con i suoi dati completi
+    onSignInteract?: SignInteractCallback
+    initialSigns?: SignData[]
+    // Parametri iniziali del terreno (vedi TERRAIN_PRESETS)
+    terrain?: TerrainConfig
+    // Chiamata quando il terreno cambia, anche ripristinando un mondo salvato con altri parametri
+    onTerrainChange?: (terrain: TerrainConfig) => void
+    // Raggio in chunk dell'area caricata attorno alla camera
+    chunkRadius?: number
+    // Ora del giorno in ore [0, 24) per l'illuminazione del terreno e dell'acqua
+    timeOfDay?: number
+    // Click e hover colpiscono anche l'acqua invece di attraversarla (es. in costruzione, per rimuoverla)
+    targetWater?: boolean
 }
 
 export interface VoxelWorldRef {
-    regenerate: () => void
+    // Senza `terrain` si mantengono i parametri attuali (o quelli del mondo salvato per il seed)
+    regenerate: (seed?: number | string, terrain?: TerrainConfig) => void
+    getTerrainConfig: () => TerrainConfig
     getSeed: () => number
+    // Estratti dai chunk attorno all'origine: dipendono dal seed e dalle modifiche, non dalla camera
     getRandomSurfaceBlocks: (count: number) => Block[]
     getRandomBlock: () => Block | null
     getBlock: (x: number, y: number, z: number) => Block | null
+    isWater: (x: number, y: number, z: number) => boolean
+    addBlock: (x: number, y: number, z: number, type: string) => void
+    // Cronologia modifiche: restituiscono false se non c'è nulla da annullare/ripetere
+    undo: () => boolean
+    redo: () => boolean
+    // Le modifiche eseguite dentro `edits` diventano un unico passo annullabile
+    batchEdits: (edits: () => void) => void
     isBlockVisible:(target: THREE.Vector3,camera: THREE.Camera) => boolean
     addSign: (signData: SignData) => void
     removeSign: (signId: string) => void
     getSigns: () => SignData[]
+    // File di mondo versionato (vedi world/world-file.ts): JSON leggibile o binario compatto
+    exportWorld: {
+        (format?: 'json'): string
+        (format: 'binary'): Uint8Array
+    }
+    // Lancia WorldFileError se il file non è valido o non compatibile
+    importWorld: (data: string | ArrayBuffer | Uint8Array) => void
+    // Modello 3D dei chunk caricati (.glb oppure .obj + .mtl), opzionalmente ritagliato
+    exportModel: (options: ModelExportOptions) => Promise<ExportedFile[]>
 }
 
 // Interface per i metodi interni
@@ -148,8 +232,9 @@ export interface VoxelWorldInstance {
     changeBlock: (position: { x: number; y: number; z: number }, newType: string) => void
     addBlock: (position: { x: number; y: number; z: number }, type: string) => void
     setBlockColor: (position: { x: number; y: number; z: number }, color: string | number) => void
-    setBlockOutline: (position: { x: number; y: number; z: number }, color: string | number, emissiveIntensity: number) => void
-    removeBlockOutline: (position: { x: number; y: number; z: number }) => void
+    setBlockOutline: (position: { x: number; y: number; z: number }, color: string | number, emissiveIntensity: number, outlineId?: string) => void
+    removeBlockOutline: (position: { x: number; y: number; z: number }, outlineId?: string) => void
+    getBiome: (position: { x: number; y: number; z: number }) => Biome
 }
 
 // Struttura per memorizzare info sui blocchi
@@ -165,6 +250,14 @@ export interface BlockData {
 
 export type LoadingCallback = (progress: number) => void
 
+/** Props della vista di lettura HTML di un cartello */
+export interface SignOverlayProps {
+    sign: SignData
+    onClose: () => void
+    // Riceve il focus alla chiusura; senza, torna all'elemento attivo all'apertura
+    returnFocus?: HTMLElement | null
+}
+
 export interface WelcomeProps {
     hasStartedJourney: boolean;
     isWorldLoaded: boolean;
@@ -178,4 +271,26 @@ export interface SignData {
   scale?: number
   content: SignContent
   style?: SignStyle
-}
\ No newline at end of file
+}
+
+/** Modifica di un blocco rispetto al mondo generato dal seed ('air' = rimosso) */
+export interface BlockEdit {
+  x: number
+  y: number
+  z: number
+  type: string
+  color?: string | number
+}
+
+/** Mondo salvato: seed + differenze rispetto alla generazione procedurale */
+export interface SavedWorld {
+  seed: number
+  terrain: TerrainConfig
+  // GENERATOR_VERSION e aree libere da decorazioni del terreno di base a cui si riferiscono le differenze
+  generatorVersion: number
+  reserved: ReservedArea[]
+  updatedAt: number
+  blocks: BlockEdit[]
+  // Presente solo se i cartelli sono stati modificati
+  signs?: SignData[]
+}
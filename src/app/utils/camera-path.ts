@@ -0,0 +1,123 @@
+// camera-path.ts
+import * as THREE from 'three'
+import { traverseVoxels } from '../world/raycast'
+
+export type SolidTest = (x: number, y: number, z: number) => boolean
+
+// Distanza tra i punti di controllo della spline
+const CONTROL_SPACING = 12
+const MAX_CONTROL_POINTS = 16
+// Arco verso l'alto proporzionale alla distanza, per non strisciare sul terreno
+const ARC_RATIO = 0.15
+const MAX_ARC = 20
+// Spazio libero da lasciare sotto la camera
+const CLEARANCE = 2
+const LIFT_STEP = 2
+const MAX_LIFT = 64
+const MAX_REFINEMENTS = 8
+// Passo di campionamento della spline nella verifica finale
+const SAMPLE_SPACING = 1
+// Velocità media del volo e limiti della durata (s)
+const FLIGHT_SPEED = 30
+const MIN_DURATION = 0.8
+const MAX_DURATION = 4
+
+function isBlocked(point: THREE.Vector3, isSolid: SolidTest): boolean {
+    const x = Math.round(point.x)
+    const y = Math.round(point.y)
+    const z = Math.round(point.z)
+    for (let dy = 0; dy <= CLEARANCE; dy++) {
+        if (isSolid(x, y - dy, z)) return true
+    }
+    return false
+}
+
+// Indici dei segmenti della spline campionata che attraversano blocchi pieni
+function findCollisions(curve: THREE.Curve<THREE.Vector3>, isSolid: SolidTest): number[] {
+    const samples = Math.max(2, Math.ceil(curve.getLength() / SAMPLE_SPACING))
+    const points = curve.getSpacedPoints(samples)
+    const hits: number[] = []
+
+    for (let i = 1; i < points.length; i++) {
+        if (traverseVoxels(points[i - 1], points[i], isSolid)) hits.push(i / samples)
+    }
+    return hits
+}
+
+/**
+ * Ripiego sempre libero sopra il terreno: sale in verticale oltre `maxHeight`, dove non
+ * ci sono blocchi, attraversa in orizzontale e scende su `end`.
+ */
+function getSafeAltitude(start: THREE.Vector3, end: THREE.Vector3, maxHeight: number): number {
+    return Math.max(maxHeight + CLEARANCE, start.y, end.y)
+}
+
+function planSafePath(start: THREE.Vector3, end: THREE.Vector3, maxHeight: number): THREE.CurvePath<THREE.Vector3> {
+    const altitude = getSafeAltitude(start, end, maxHeight)
+    const points = [
+        start.clone(),
+        new THREE.Vector3(start.x, altitude, start.z),
+        new THREE.Vector3(end.x, altitude, end.z),
+        end.clone()
+    ]
+
+    const path = new THREE.CurvePath<THREE.Vector3>()
+    for (let i = 1; i < points.length; i++) {
+        if (!points[i].equals(points[i - 1])) path.add(new THREE.LineCurve3(points[i - 1], points[i]))
+    }
+    return path
+}
+
+/**
+ * Percorso di volo da `start` a `end`: una spline che si alza ad arco e sale
+ * sopra i blocchi pieni incontrati. Gli estremi restano fissi, quindi `end`
+ * deve essere già libero (es. il punto scelto da findIdealSpot).
+ * Se la spline tocca ancora il terreno si ripiega su planSafePath.
+ */
+export function planCameraPath(
+    start: THREE.Vector3,
+    end: THREE.Vector3,
+    isSolid: SolidTest,
+    maxHeight: number
+): THREE.Curve<THREE.Vector3> {
+    const distance = start.distanceTo(end)
+    const count = THREE.MathUtils.clamp(Math.ceil(distance / CONTROL_SPACING), 2, MAX_CONTROL_POINTS)
+    const arc = Math.min(distance * ARC_RATIO, MAX_ARC)
+    // Più in alto della quota sicura non serve salire
+    const altitude = getSafeAltitude(start, end, maxHeight)
+
+    const points = [start.clone()]
+    for (let i = 1; i < count; i++) {
+        const t = i / count
+        const point = start.clone().lerp(end, t)
+        point.y += Math.sin(Math.PI * t) * arc
+
+        for (let lift = 0; lift < MAX_LIFT && point.y < altitude && isBlocked(point, isSolid); lift += LIFT_STEP) {
+            point.y = Math.min(point.y + LIFT_STEP, altitude)
+        }
+        points.push(point)
+    }
+    points.push(end.clone())
+
+    const curve = new THREE.CatmullRomCurve3(points, false, 'centripetal')
+
+    // La spline può ancora tagliare un crinale tra due punti: si alzano quelli vicini all'urto
+    for (let attempt = 0; attempt < MAX_REFINEMENTS; attempt++) {
+        const hits = findCollisions(curve, isSolid)
+        if (hits.length === 0) return curve
+
+        hits.forEach(t => {
+            const index = THREE.MathUtils.clamp(Math.round(t * (points.length - 1)), 1, points.length - 2)
+            const point = points[index]
+            if (point.y < altitude) point.y = Math.min(point.y + LIFT_STEP * 2, altitude)
+        })
+        curve.updateArcLengths()
+    }
+
+    // Si ricontrolla anche dopo l'ultimo rialzo
+    return findCollisions(curve, isSolid).length === 0 ? curve : planSafePath(start, end, maxHeight)
+}
+
+export function getFlightDuration(path: THREE.Curve<THREE.Vector3>): number {
+    return THREE.MathUtils.clamp(path.getLength() / FLIGHT_SPEED, MIN_DURATION, MAX_DURATION)
+}
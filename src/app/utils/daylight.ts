@@ -0,0 +1,65 @@
+// daylight.ts
+import * as THREE from 'three'
+
+// Ora del giorno in ore decimali [0, 24): alle 6 sorge il sole, alle 18 tramonta
+export const DEFAULT_TIME_OF_DAY = 10
+
+export interface DaylightState {
+    // Direzione verso il sole (anche sotto l'orizzonte), per il cielo
+    sunPosition: THREE.Vector3
+    // Direzione verso la luce principale: il sole di giorno, la luna di notte
+    lightDirection: THREE.Vector3
+    lightColor: THREE.Color
+    lightIntensity: number
+    // Luce diffusa del cielo
+    ambientColor: THREE.Color
+    ambientIntensity: number
+}
+
+// Inclinazione dell'orbita del sole verso sud, per avere ombre anche a mezzogiorno
+const SUN_TILT = 0.35
+const SUN_COLOR = new THREE.Color(1, 0.98, 0.92)
+const SUNSET_COLOR = new THREE.Color(1, 0.55, 0.3)
+const MOON_COLOR = new THREE.Color(0.45, 0.55, 0.8)
+const MOON_INTENSITY = 0.25
+const DAY_AMBIENT = new THREE.Color(1, 1, 1)
+const NIGHT_AMBIENT = new THREE.Color(0.25, 0.3, 0.5)
+
+export function normalizeTimeOfDay(hours: number): number {
+    return ((hours % 24) + 24) % 24
+}
+
+// Ora locale del dispositivo, per la modalità in tempo reale
+export function getRealTimeOfDay(date = new Date()): number {
+    return date.getHours() + date.getMinutes() / 60 + date.getSeconds() / 3600
+}
+
+/**
+ * Sole, luna e luce ambiente per un'ora del giorno. Funzione pura:
+ * cielo, luce direzionale e shader del terreno leggono tutti da qui e restano allineati.
+ */
+export function getDaylight(timeOfDay: number): DaylightState {
+    const angle = (normalizeTimeOfDay(timeOfDay) / 24) * Math.PI * 2 - Math.PI / 2
+    const sunPosition = new THREE.Vector3(Math.cos(angle), Math.sin(angle), SUN_TILT).normalize()
+    const elevation = sunPosition.y
+
+    const day = THREE.MathUtils.smoothstep(elevation, -0.1, 0.2)
+    const isNight = elevation < 0
+
+    const lightDirection = isNight ? sunPosition.clone().negate() : sunPosition.clone()
+    const lightIntensity = isNight
+        ? MOON_INTENSITY * THREE.MathUtils.smoothstep(-elevation, 0, 0.2)
+        : THREE.MathUtils.smoothstep(elevation, 0, 0.15)
+    const lightColor = isNight
+        ? MOON_COLOR.clone()
+        : SUNSET_COLOR.clone().lerp(SUN_COLOR, THREE.MathUtils.smoothstep(elevation, 0, 0.4))
+
+    return {
+        sunPosition,
+        lightDirection,
+        lightColor,
+        lightIntensity,
+        ambientColor: NIGHT_AMBIENT.clone().lerp(DAY_AMBIENT, day),
+        ambientIntensity: THREE.MathUtils.lerp(0.15, 0.4, day)
+    }
+}
@@ -0,0 +1,54 @@
+// random.ts
+
+export type RandomFunction = () => number
+
+// Converte un seed (numero o stringa) in un intero a 32 bit
+export function hashSeed(seed: number | string): number {
+    if (typeof seed === 'number' && Number.isFinite(seed)) {
+        return Math.floor(seed) >>> 0
+    }
+
+    // FNV-1a sulla stringa per ottenere un seed stabile
+    const text = String(seed)
+    let hash = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+// PRNG mulberry32: veloce, deterministico, valori in [0, 1)
+export function createRandom(seed: number | string): RandomFunction {
+    let state = hashSeed(seed)
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0
+        let t = state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+}
+
+// Hash di una cella intera: stesso risultato qualunque sia l'ordine di generazione dei chunk
+export function hashCoords(seed: number, x: number, z: number): number {
+    let hash = seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(z, 0x165667b1)
+    hash = Math.imul(hash ^ (hash >>> 15), 0x85ebca6b)
+    hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35)
+    return (hash ^ (hash >>> 16)) >>> 0
+}
+
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 1000000)
+}
+
+// Fisher-Yates con PRNG deterministico
+export function shuffle<T>(items: T[], random: RandomFunction): T[] {
+    const result = [...items]
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1))
+        ;[result[i], result[j]] = [result[j], result[i]]
+    }
+    return result
+}
@@ -0,0 +1,194 @@
+// sign-markdown.ts
+
+// Markdown leggero dei cartelli: **grassetto**, [testo](url), ![alt](/immagine.png)
+// ed email o URL scritti per esteso (con http(s):// o www.), che diventano link
+export type SignSpan =
+    | { type: 'text'; text: string; bold?: boolean; href?: string }
+    | { type: 'image'; src: string; alt: string }
+
+export type SignRow =
+    | { type: 'text'; spans: SignSpan[] }
+    // Immagine su una riga a sé: occupa IMAGE_ROWS righe di testo
+    | { type: 'image'; src: string; alt: string }
+
+export interface SignLayoutOptions {
+    // Larghezza utile di una riga, in multipli della dimensione del font
+    rowWidth: number
+    rowsPerPage: number
+}
+
+export const IMAGE_ROWS = 3
+// Riga che forza l'inizio di una nuova pagina
+export const PAGE_BREAK = '---'
+// Larghezza media stimata di un carattere e di un'icona in linea, in em
+const CHAR_WIDTH = 0.4
+export const ICON_WIDTH = 1.2
+
+// Destinazione di un link o di un'immagine: ammette un livello di parentesi bilanciate,
+// così anche un link scartato come [x](javascript:alert(1)) si consuma per intero
+const TARGET = String.raw`\(((?:[^()\s]|\([^()\s]*\))+)\)`
+const INLINE_PATTERN = new RegExp(
+    String.raw`!\[([^\]]*)\]` + TARGET + String.raw`|\[([^\]]+)\]` + TARGET +
+    String.raw`|\*\*(.+?)\*\*|([\w.+-]+@[\w-]+(?:\.[\w-]+)+)|(\b(?:https?:\/\/|www\.)[^\s)]+)`,
+    'gi'
+)
+const TRAILING_PUNCTUATION = /[.,;:!?]+$/
+const SAFE_SCHEMES = ['http:', 'https:', 'mailto:']
+
+// Solo http, https, mailto e percorsi locali: niente javascript: o simili
+export function toSignHref(value: string): string | null {
+    if (value.startsWith('/')) return value
+    const scheme = /^([a-z][a-z0-9+.-]*:)/i.exec(value)?.[1].toLowerCase()
+    if (scheme) return SAFE_SCHEMES.includes(scheme) ? value : null
+    return value.includes('@') ? `mailto:${value}` : `https://${value}`
+}
+
+function isLocalImage(src: string): boolean {
+    return src.startsWith('/') && !src.startsWith('//')
+}
+
+export function parseSignInline(text: string, bold = false): SignSpan[] {
+    const spans: SignSpan[] = []
+    const pattern = new RegExp(INLINE_PATTERN.source, INLINE_PATTERN.flags)
+    let lastIndex = 0
+    let match: RegExpExecArray | null
+
+    const pushText = (value: string, href?: string | null) => {
+        if (value) spans.push({ type: 'text', text: value, ...(bold && { bold }), ...(href && { href }) })
+    }
+
+    while ((match = pattern.exec(text)) !== null) {
+        const [value, alt, src, label, linkHref, strong, email, url] = match
+        pushText(text.slice(lastIndex, match.index))
+        lastIndex = match.index + value.length
+
+        if (src !== undefined) {
+            // Le immagini arrivano solo da /public
+            if (isLocalImage(src)) spans.push({ type: 'image', src, alt })
+            else pushText(alt)
+        } else if (label !== undefined) {
+            pushText(label, toSignHref(linkHref))
+        } else if (strong !== undefined) {
+            spans.push(...parseSignInline(strong, true))
+        } else {
+            // La punteggiatura finale non fa parte dell'indirizzo
+            const address = (email ?? url).replace(TRAILING_PUNCTUATION, '')
+            pushText(address, toSignHref(address))
+            lastIndex -= value.length - address.length
+        }
+    }
+
+    pushText(text.slice(lastIndex))
+    return spans
+}
+
+export function getSignBodyLines(body: string | string[]): string[] {
+    return Array.isArray(body) ? body : body.split('\n')
+}
+
+function measureSpan(span: SignSpan): number {
+    return span.type === 'image' ? ICON_WIDTH : span.text.length * CHAR_WIDTH
+}
+
+function isSameStyle(a: SignSpan, b: SignSpan): boolean {
+    return a.type === 'text' && b.type === 'text' && a.bold === b.bold && a.href === b.href
+}
+
+// Pezzi contigui con lo stesso stile tornano un solo testo; gli spazi finali si scartano
+function compactRow(row: SignSpan[]): SignSpan[] {
+    const compact: SignSpan[] = []
+    row.forEach(span => {
+        const last = compact[compact.length - 1]
+        if (last && last.type === 'text' && span.type === 'text' && isSameStyle(last, span)) {
+            compact[compact.length - 1] = { ...last, text: last.text + span.text }
+        } else {
+            compact.push(span)
+        }
+    })
+
+    const last = compact[compact.length - 1]
+    if (last?.type === 'text') {
+        const text = last.text.trimEnd()
+        if (text) compact[compact.length - 1] = { ...last, text }
+        else compact.pop()
+    }
+    return compact
+}
+
+// A capo sulle parole, mantenendo grassetto e link dei pezzi spezzati
+function wrapSpans(spans: SignSpan[], rowWidth: number): SignSpan[][] {
+    const rows: SignSpan[][] = [[]]
+    let width = 0
+
+    const pieces = spans.flatMap<SignSpan>(span => span.type === 'image'
+        ? [span]
+        : span.text.split(/(\s+)/).filter(Boolean).map(text => ({ ...span, text })))
+
+    pieces.forEach(piece => {
+        const isSpace = piece.type === 'text' && /^\s+$/.test(piece.text)
+        const pieceWidth = measureSpan(piece)
+
+        if (width + pieceWidth > rowWidth && width > 0) {
+            if (isSpace) return
+            rows.push([])
+            width = 0
+        }
+        // Parole più lunghe dell'intera riga: si tagliano a misura
+        if (piece.type === 'text' && pieceWidth > rowWidth) {
+            const size = Math.max(1, Math.floor(rowWidth / CHAR_WIDTH))
+            for (let i = 0; i < piece.text.length; i += size) {
+                if (rows[rows.length - 1].length > 0) rows.push([])
+                rows[rows.length - 1].push({ ...piece, text: piece.text.slice(i, i + size) })
+            }
+            width = measureSpan(rows[rows.length - 1][0])
+            return
+        }
+        if (isSpace && width === 0) return
+
+        rows[rows.length - 1].push(piece)
+        width += pieceWidth
+    })
+    return rows.map(compactRow)
+}
+
+/**
+ * Impagina il corpo di un cartello: righe spezzate alla larghezza del pannello e
+ * distribuite su più pagine invece di uscire dal bordo. Le liste diventano punti elenco.
+ */
+export function layoutSignPages(body: string | string[], { rowWidth, rowsPerPage }: SignLayoutOptions): SignRow[][] {
+    const pages: SignRow[][] = [[]]
+    let used = 0
+
+    const addRow = (row: SignRow) => {
+        const height = row.type === 'image' ? IMAGE_ROWS : 1
+        if (used + height > rowsPerPage && used > 0) {
+            pages.push([])
+            used = 0
+        }
+        pages[pages.length - 1].push(row)
+        used += height
+    }
+
+    getSignBodyLines(body).forEach(line => {
+        if (line.trim() === PAGE_BREAK) {
+            if (used > 0) {
+                pages.push([])
+                used = 0
+            }
+            return
+        }
+
+        const spans = parseSignInline(line)
+        const [first] = spans
+        if (spans.length === 1 && first.type === 'image') {
+            addRow({ type: 'image', src: first.src, alt: first.alt })
+            return
+        }
+
+        const content: SignSpan[] = Array.isArray(body) && line.trim() ? [{ type: 'text', text: '• ' }, ...spans] : spans
+        wrapSpans(content, rowWidth).forEach(row => addRow({ type: 'text', spans: row }))
+    })
+
+    if (pages.length > 1 && pages[pages.length - 1].length === 0) pages.pop()
+    return pages
+}
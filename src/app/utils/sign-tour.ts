@@ -0,0 +1,70 @@
+// sign-tour.ts
+import * as THREE from 'three'
+import { CameraPose, SignData } from '../types/types'
+import { SolidTest } from './camera-path'
+
+// Distanza della camera davanti al pannello, per un cartello in scala 1
+const VIEW_DISTANCE = 5
+// Leggero rialzo: il cartello si guarda un po' dall'alto
+const VIEW_LIFT = 0.8
+const LIFT_STEP = 1
+const MAX_LIFT = 24
+// Durata complessiva desiderata del tour e limiti della sosta per cartello (ms)
+const TOUR_LENGTH = 60000
+const AVERAGE_FLIGHT = 2500
+const MIN_PAUSE = 3000
+const MAX_PAUSE = 8000
+
+function getSignCenter(sign: SignData): THREE.Vector3 {
+    return new THREE.Vector3(...sign.position)
+}
+
+/**
+ * Ordine di visita dei cartelli: si parte dal primo dell'elenco (il benvenuto)
+ * e si prosegue sempre verso il più vicino non ancora visitato.
+ */
+export function orderSignTour(signs: SignData[]): SignData[] {
+    if (signs.length === 0) return []
+
+    const remaining = signs.slice(1)
+    const tour = [signs[0]]
+
+    while (remaining.length > 0) {
+        const current = getSignCenter(tour[tour.length - 1])
+        let nearest = 0
+        remaining.forEach((sign, index) => {
+            if (getSignCenter(sign).distanceToSquared(current) < getSignCenter(remaining[nearest]).distanceToSquared(current)) {
+                nearest = index
+            }
+        })
+        tour.push(remaining.splice(nearest, 1)[0])
+    }
+    return tour
+}
+
+/**
+ * Vista frontale di un cartello: il pannello guarda verso +Z locale, quindi la
+ * camera si mette lungo quella normale ruotata. Se il punto è dentro il terreno
+ * si sale finché non è libero.
+ */
+export function getSignViewPose(sign: SignData, isSolid: SolidTest): CameraPose {
+    const [rx, ry, rz] = sign.rotation ?? [0, 0, 0]
+    const scale = sign.scale ?? 1
+    const target = getSignCenter(sign)
+    const normal = new THREE.Vector3(0, 0, 1).applyEuler(new THREE.Euler(rx, ry, rz))
+
+    const position = target.clone().addScaledVector(normal, VIEW_DISTANCE * scale)
+    position.y += VIEW_LIFT * scale
+
+    for (let lift = 0; lift < MAX_LIFT; lift += LIFT_STEP) {
+        if (!isSolid(Math.round(position.x), Math.round(position.y), Math.round(position.z))) break
+        position.y += LIFT_STEP
+    }
+
+    return { position, target }
+}
+
+// Sosta su ogni cartello in riproduzione automatica, per finire il giro in circa un minuto
+export function getTourPause(stopCount: number): number {
+    return THREE.MathUtils.clamp(TOUR_LENGTH / Math.max(1, stopCount) - AVERAGE_FLIGHT, MIN_PAUSE, MAX_PAUSE)
+}
@@ -0,0 +1,79 @@
+// url-state.ts
+import * as THREE from 'three'
+import { WorldUrlState } from '../types/types'
+
+// Parametri usati nella query (o nell'hash) per condividere una vista
+const SEED_PARAM = 'seed'
+const CAMERA_PARAM = 'cam'
+const TARGET_PARAM = 'target'
+const BLOCK_PARAM = 'block'
+
+function parseNumbers(value: string | null): number[] | null {
+    if (!value) return null
+    const parts = value.split(',').map(Number)
+    if (parts.length !== 3 || parts.some(n => !Number.isFinite(n))) return null
+    return parts
+}
+
+function formatNumber(value: number): string {
+    return String(Math.round(value * 100) / 100)
+}
+
+function formatVector(vector: { x: number; y: number; z: number }): string {
+    return [vector.x, vector.y, vector.z].map(formatNumber).join(',')
+}
+
+function getParams(): URLSearchParams {
+    const query = new URLSearchParams(window.location.search)
+    if (query.has(SEED_PARAM) || query.has(CAMERA_PARAM) || query.has(BLOCK_PARAM)) return query
+    // Fallback per link condivisi con i parametri nell'hash (#seed=...)
+    return new URLSearchParams(window.location.hash.replace(/^#/, ''))
+}
+
+export function readWorldUrlState(): WorldUrlState {
+    if (typeof window === 'undefined') return {}
+
+    const params = getParams()
+    const state: WorldUrlState = {}
+
+    const seed = params.get(SEED_PARAM)
+    if (seed) {
+        state.seed = /^\d+$/.test(seed) ? Number(seed) : seed
+    }
+
+    const position = parseNumbers(params.get(CAMERA_PARAM))
+    const target = parseNumbers(params.get(TARGET_PARAM))
+    if (position && target) {
+        state.camera = {
+            position: new THREE.Vector3(...position),
+            target: new THREE.Vector3(...target)
+        }
+    }
+
+    const block = parseNumbers(params.get(BLOCK_PARAM))
+    if (block) {
+        const [x, y, z] = block.map(Math.round)
+        state.block = { x, y, z }
+    }
+
+    return state
+}
+
+export function writeWorldUrlState(state: WorldUrlState) {
+    if (typeof window === 'undefined') return
+
+    const params = new URLSearchParams(window.location.search)
+    ;[SEED_PARAM, CAMERA_PARAM, TARGET_PARAM, BLOCK_PARAM].forEach(key => params.delete(key))
+
+    if (state.seed !== undefined) params.set(SEED_PARAM, String(state.seed))
+    if (state.camera) {
+        params.set(CAMERA_PARAM, formatVector(state.camera.position))
+        params.set(TARGET_PARAM, formatVector(state.camera.target))
+    }
+    if (state.block) params.set(BLOCK_PARAM, formatVector(state.block))
+
+    // Le virgole restano leggibili nel link
+    const query = params.toString().replace(/%2C/g, ',')
+    const url = `${window.location.pathname}${query ? `?${query}` : ''}`
+    window.history.replaceState(window.history.state, '', url)
+}
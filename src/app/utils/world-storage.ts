@@ -0,0 +1,76 @@
+// world-storage.ts
+import { SavedWorld } from '../types/types'
+import { DEFAULT_TERRAIN_CONFIG, GENERATOR_VERSION } from '../world/terrain'
+
+// Mondi modificati salvati in IndexedDB, uno per seed
+const DB_NAME = 'voxel-world'
+const DB_VERSION = 1
+const STORE_NAME = 'worlds'
+
+// Come sono scritti i salvataggi precedenti alla versione del generatore
+type StoredWorld = Omit<SavedWorld, 'terrain' | 'generatorVersion' | 'reserved'> &
+    Partial<Pick<SavedWorld, 'terrain' | 'generatorVersion' | 'reserved'>>
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION)
+            request.onupgradeneeded = () => {
+                request.result.createObjectStore(STORE_NAME, { keyPath: 'seed' })
+            }
+            request.onsuccess = () => resolve(request.result)
+            request.onerror = () => {
+                databasePromise = null
+                reject(request.error)
+            }
+        })
+    }
+    return databasePromise
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await openDatabase()
+    return new Promise((resolve, reject) => {
+        const request = action(database.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+/**
+ * Dei salvataggi senza versione del generatore non si può ricostruire il terreno di base:
+ * si scartano (il prossimo salvataggio li sovrascrive). Quelli precedenti alla densità 3D
+ * non hanno grotte e sporgenze, cioè i parametri predefiniti.
+ */
+function migrateWorld(world: StoredWorld): SavedWorld | null {
+    const { terrain, generatorVersion, reserved } = world
+    if (generatorVersion === GENERATOR_VERSION && terrain && reserved) {
+        return { ...world, terrain: { ...DEFAULT_TERRAIN_CONFIG, ...terrain }, generatorVersion, reserved }
+    }
+
+    console.warn(`Il mondo salvato per il seed ${world.seed} usa un terreno di base non più supportato e verrà ignorato`)
+    return null
+}
+
+export async function saveWorld(world: SavedWorld): Promise<void> {
+    await runRequest('readwrite', store => store.put(world))
+}
+
+export async function loadWorld(seed: number): Promise<SavedWorld | null> {
+    const world = await runRequest<StoredWorld | undefined>('readonly', store => store.get(seed))
+    return world ? migrateWorld(world) : null
+}
+
+export async function listWorlds(): Promise<SavedWorld[]> {
+    const worlds = await runRequest<StoredWorld[]>('readonly', store => store.getAll())
+    return worlds
+        .map(migrateWorld)
+        .filter((world): world is SavedWorld => world !== null)
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+}
+
+export async function deleteWorld(seed: number): Promise<void> {
+    await runRequest('readwrite', store => store.delete(seed))
+}
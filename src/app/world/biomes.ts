@@ -0,0 +1,54 @@
+// biomes.ts
+import { createNoise2D } from 'simplex-noise'
+import { createRandom } from '../utils/random'
+
+// Tipi di blocco di un bioma, dalla superficie verso il basso
+export interface Biome {
+    name: string
+    label: string
+    surface: string
+    subsurface: string
+    // Superficie sotto la quota delle spiagge
+    beach: string
+}
+
+export const BIOMES: Record<string, Biome> = {
+    plains: { name: 'plains', label: 'Pianura', surface: 'grass', subsurface: 'dirt', beach: 'sand' },
+    forest: { name: 'forest', label: 'Foresta', surface: 'forest_grass', subsurface: 'dirt', beach: 'sand' },
+    desert: { name: 'desert', label: 'Deserto', surface: 'sand', subsurface: 'sandstone', beach: 'sand' },
+    tundra: { name: 'tundra', label: 'Tundra', surface: 'snow', subsurface: 'dirt', beach: 'ice' },
+    swamp: { name: 'swamp', label: 'Palude', surface: 'mud', subsurface: 'clay', beach: 'mud' }
+}
+
+export const DEFAULT_BIOME = BIOMES.plains
+
+// I biomi cambiano molto più lentamente del terreno
+const CLIMATE_SCALE = 160
+// Rumore fine che rende irregolari i confini tra biomi
+const EDGE_SCALE = 12
+const EDGE_STRENGTH = 0.08
+
+// Soglie su temperatura e umidità, entrambe in [-1, 1]
+function pickBiome(temperature: number, moisture: number): Biome {
+    if (temperature < -0.35) return BIOMES.tundra
+    if (temperature > 0.3 && moisture < -0.1) return BIOMES.desert
+    if (moisture > 0.4) return BIOMES.swamp
+    if (moisture > 0) return BIOMES.forest
+    return BIOMES.plains
+}
+
+export type BiomeSampler = (x: number, z: number) => Biome
+
+// Due campi di rumore indipendenti (temperatura e umidità) derivati dal seed
+export function createBiomeSampler(seed: number): BiomeSampler {
+    const temperatureNoise = createNoise2D(createRandom(`${seed}:temperature`))
+    const moistureNoise = createNoise2D(createRandom(`${seed}:moisture`))
+    const edgeNoise = createNoise2D(createRandom(`${seed}:biome-edges`))
+
+    return (x, z) => {
+        const edge = edgeNoise(x / EDGE_SCALE, z / EDGE_SCALE) * EDGE_STRENGTH
+        const temperature = temperatureNoise(x / CLIMATE_SCALE, z / CLIMATE_SCALE) + edge
+        const moisture = moistureNoise(x / CLIMATE_SCALE, z / CLIMATE_SCALE) - edge
+        return pickBiome(temperature, moisture)
+    }
+}
@@ -0,0 +1,98 @@
+// chunks.ts
+
+// Il mondo è diviso in colonne di CHUNK_SIZE x CHUNK_SIZE blocchi
+export const CHUNK_SIZE = 16
+// Chunk con un bordo di un blocco preso dai vicini, usato per il meshing
+export const PADDED_SIZE = CHUNK_SIZE + 2
+
+export interface ChunkData {
+    cx: number
+    cz: number
+    height: number
+    // Id dei blocchi (vedi BLOCK_TYPES), layout x -> z -> y
+    blocks: Uint8Array
+    // Colori personalizzati, indicizzati come blocks
+    colors: Map<number, string | number>
+}
+
+export function chunkKey(cx: number, cz: number): string {
+    return `${cx},${cz}`
+}
+
+export function createChunk(cx: number, cz: number, height: number): ChunkData {
+    return {
+        cx,
+        cz,
+        height,
+        blocks: new Uint8Array(CHUNK_SIZE * CHUNK_SIZE * height),
+        colors: new Map()
+    }
+}
+
+export function blockIndex(lx: number, y: number, lz: number): number {
+    return lx + CHUNK_SIZE * (lz + CHUNK_SIZE * y)
+}
+
+export function paddedIndex(px: number, y: number, pz: number): number {
+    return px + PADDED_SIZE * (pz + PADDED_SIZE * y)
+}
+
+// Converte coordinate mondo in chunk + coordinate locali
+export function worldToChunk(x: number, z: number) {
+    const cx = Math.floor(x / CHUNK_SIZE)
+    const cz = Math.floor(z / CHUNK_SIZE)
+    return {
+        cx,
+        cz,
+        lx: x - cx * CHUNK_SIZE,
+        lz: z - cz * CHUNK_SIZE
+    }
+}
+
+export function getChunkBlock(chunk: ChunkData, lx: number, y: number, lz: number): number {
+    if (y < 0 || y >= chunk.height) return 0
+    return chunk.blocks[blockIndex(lx, y, lz)]
+}
+
+export function getChunkColumn(chunk: ChunkData, lx: number, lz: number): Uint8Array {
+    const column = new Uint8Array(chunk.height)
+    for (let y = 0; y < chunk.height; y++) {
+        column[y] = chunk.blocks[blockIndex(lx, y, lz)]
+    }
+    return column
+}
+
+/**
+ * Copia il chunk in un array con un bordo di un blocco.
+ * `getColumn` fornisce le colonne dei vicini (x, z in coordinate mondo).
+ */
+export function createPaddedBlocks(
+    chunk: ChunkData,
+    getColumn: (x: number, z: number) => Uint8Array
+): Uint8Array {
+    const { height } = chunk
+    const padded = new Uint8Array(PADDED_SIZE * PADDED_SIZE * height)
+    const originX = chunk.cx * CHUNK_SIZE
+    const originZ = chunk.cz * CHUNK_SIZE
+
+    for (let pz = 0; pz < PADDED_SIZE; pz++) {
+        for (let px = 0; px < PADDED_SIZE; px++) {
+            const lx = px - 1
+            const lz = pz - 1
+            const inside = lx >= 0 && lx < CHUNK_SIZE && lz >= 0 && lz < CHUNK_SIZE
+
+            if (inside) {
+                for (let y = 0; y < height; y++) {
+                    padded[paddedIndex(px, y, pz)] = chunk.blocks[blockIndex(lx, y, lz)]
+                }
+            } else {
+                const column = getColumn(originX + lx, originZ + lz)
+                for (let y = 0; y < height; y++) {
+                    padded[paddedIndex(px, y, pz)] = column[y]
+                }
+            }
+        }
+    }
+
+    return padded
+}
@@ -0,0 +1,204 @@
+// decorations.ts
+import { RandomFunction, createRandom, hashCoords } from '../utils/random'
+import { Biome } from './biomes'
+
+// Blocco di una struttura, relativo al punto di ancoraggio sopra la superficie
+interface StructureBlock {
+    dx: number
+    dy: number
+    dz: number
+    type: string
+}
+
+type Structure = (random: RandomFunction) => StructureBlock[]
+
+// Punti da lasciare liberi (es. i cartelli iniziali)
+export interface ReservedArea {
+    x: number
+    z: number
+}
+
+interface DecorationRule {
+    structure: string
+    chance: number
+    // Tipi di superficie su cui la struttura può nascere
+    surfaces: string[]
+}
+
+export interface DecoratorOptions {
+    waterLevel: number
+    maxHeight: number
+    reserved: ReservedArea[]
+    getHeight: (x: number, z: number) => number
+    getBiome: (x: number, z: number) => Biome
+    getSurfaceType: (x: number, z: number, surfaceHeight: number) => string
+}
+
+export type DecorateRegion = (
+    x0: number,
+    z0: number,
+    width: number,
+    depth: number,
+    write: (x: number, y: number, z: number, type: string) => void
+) => void
+
+// Al massimo una struttura per cella, ancorata lontano dai bordi: due strutture non si toccano mai
+const CELL_SIZE = 6
+const MAX_RADIUS = 2
+const RESERVED_CLEARANCE = 3
+const DECORATION_SALT = 0x9e3779b9
+
+// Distanza massima da un'area riservata dei blocchi di cui cambia il terreno di base
+export const RESERVED_REACH = 2 * MAX_RADIUS + RESERVED_CLEARANCE
+
+// Un'area per cartello, nella colonna in cui è piantato
+export function getReservedAreas(signs: { position: [number, number, number] }[]): ReservedArea[] {
+    return signs.map(sign => ({ x: Math.round(sign.position[0]), z: Math.round(sign.position[2]) }))
+}
+
+export function isSameReserved(a: ReservedArea[], b: ReservedArea[]): boolean {
+    return a.length === b.length && a.every((area, i) => area.x === b[i].x && area.z === b[i].z)
+}
+
+function tree(random: RandomFunction): StructureBlock[] {
+    const trunk = 4 + Math.floor(random() * 3)
+    const blocks: StructureBlock[] = []
+
+    for (let dy = 0; dy < trunk; dy++) blocks.push({ dx: 0, dy, dz: 0, type: 'wood' })
+
+    for (let dy = trunk - 2; dy <= trunk; dy++) {
+        const radius = dy === trunk ? 1 : 2
+        for (let dz = -radius; dz <= radius; dz++) {
+            for (let dx = -radius; dx <= radius; dx++) {
+                if (radius === 2 && Math.abs(dx) === 2 && Math.abs(dz) === 2) continue
+                if (dx === 0 && dz === 0 && dy < trunk) continue
+                blocks.push({ dx, dy, dz, type: 'leaves' })
+            }
+        }
+    }
+    blocks.push({ dx: 0, dy: trunk + 1, dz: 0, type: 'leaves' })
+
+    return blocks
+}
+
+function cactus(random: RandomFunction): StructureBlock[] {
+    const height = 2 + Math.floor(random() * 3)
+    return Array.from({ length: height }, (_, dy) => ({ dx: 0, dy, dz: 0, type: 'cactus' }))
+}
+
+function boulder(random: RandomFunction): StructureBlock[] {
+    const blocks: StructureBlock[] = [{ dx: 0, dy: 0, dz: 0, type: 'stone' }]
+    ;[[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dz]) => {
+        if (random() > 0.4) blocks.push({ dx, dy: 0, dz, type: 'stone' })
+    })
+    if (random() > 0.3) blocks.push({ dx: 0, dy: 1, dz: 0, type: 'stone' })
+    return blocks
+}
+
+// Muri diroccati attorno a un cortile 3x3, con un varco
+function ruin(random: RandomFunction): StructureBlock[] {
+    const blocks: StructureBlock[] = []
+    const door = Math.floor(random() * 4)
+
+    for (let dz = -2; dz <= 2; dz++) {
+        for (let dx = -2; dx <= 2; dx++) {
+            if (Math.max(Math.abs(dx), Math.abs(dz)) !== 2) continue
+            const side = dz === -2 ? 0 : dx === 2 ? 1 : dz === 2 ? 2 : 3
+            if (side === door && (dx === 0 || dz === 0)) continue
+            if (random() < 0.3) continue
+
+            const height = 1 + Math.floor(random() * 3)
+            for (let dy = 0; dy < height; dy++) blocks.push({ dx, dy, dz, type: 'cobblestone' })
+        }
+    }
+
+    return blocks
+}
+
+const STRUCTURES: Record<string, Structure> = { tree, cactus, boulder, ruin }
+
+const GRASSY = ['grass', 'forest_grass']
+// In montagna (roccia e neve) crescono solo massi
+const MOUNTAIN_RULE: DecorationRule = { structure: 'boulder', chance: 0.12, surfaces: ['rock', 'snow'] }
+
+const BIOME_DECORATIONS: Record<string, DecorationRule[]> = {
+    plains: [
+        { structure: 'tree', chance: 0.2, surfaces: GRASSY },
+        { structure: 'boulder', chance: 0.08, surfaces: GRASSY },
+        { structure: 'ruin', chance: 0.04, surfaces: GRASSY },
+        MOUNTAIN_RULE
+    ],
+    forest: [
+        { structure: 'tree', chance: 0.75, surfaces: GRASSY },
+        MOUNTAIN_RULE
+    ],
+    desert: [
+        { structure: 'cactus', chance: 0.35, surfaces: ['sand'] },
+        { structure: 'ruin', chance: 0.06, surfaces: ['sand'] },
+        MOUNTAIN_RULE
+    ],
+    tundra: [
+        { structure: 'boulder', chance: 0.15, surfaces: ['snow', 'ice'] },
+        { structure: 'tree', chance: 0.08, surfaces: ['snow'] },
+        MOUNTAIN_RULE
+    ],
+    swamp: [
+        { structure: 'tree', chance: 0.3, surfaces: ['mud'] },
+        MOUNTAIN_RULE
+    ]
+}
+
+/**
+ * Decorazione deterministica dopo la heightmap: ogni cella sceglie da sola
+ * la sua struttura, così un chunk (o una singola colonna) si decora senza
+ * conoscere l'ordine di generazione né i chunk vicini.
+ */
+export function createDecorator(seed: number, options: DecoratorOptions): DecorateRegion {
+    const decorationSeed = (seed ^ DECORATION_SALT) >>> 0
+
+    const isReserved = (x: number, z: number) => options.reserved.some(area =>
+        Math.abs(area.x - x) <= MAX_RADIUS + RESERVED_CLEARANCE &&
+        Math.abs(area.z - z) <= MAX_RADIUS + RESERVED_CLEARANCE
+    )
+
+    return (x0, z0, width, depth, write) => {
+        const minCellX = Math.floor((x0 - MAX_RADIUS) / CELL_SIZE)
+        const maxCellX = Math.floor((x0 + width - 1 + MAX_RADIUS) / CELL_SIZE)
+        const minCellZ = Math.floor((z0 - MAX_RADIUS) / CELL_SIZE)
+        const maxCellZ = Math.floor((z0 + depth - 1 + MAX_RADIUS) / CELL_SIZE)
+
+        for (let cellZ = minCellZ; cellZ <= maxCellZ; cellZ++) {
+            for (let cellX = minCellX; cellX <= maxCellX; cellX++) {
+                const random = createRandom(hashCoords(decorationSeed, cellX, cellZ))
+                const span = CELL_SIZE - 2 * MAX_RADIUS
+                const anchorX = cellX * CELL_SIZE + MAX_RADIUS + Math.floor(random() * span)
+                const anchorZ = cellZ * CELL_SIZE + MAX_RADIUS + Math.floor(random() * span)
+
+                // Solo sulle superfici emerse, come i blocchi di superficie del mondo
+                const surfaceHeight = options.getHeight(anchorX, anchorZ)
+                if (surfaceHeight < options.waterLevel || isReserved(anchorX, anchorZ)) continue
+
+                const surface = options.getSurfaceType(anchorX, anchorZ, surfaceHeight)
+                const rules = BIOME_DECORATIONS[options.getBiome(anchorX, anchorZ).name] ?? []
+                let roll = random()
+                const rule = rules.find(candidate => {
+                    if (!candidate.surfaces.includes(surface)) return false
+                    roll -= candidate.chance
+                    return roll < 0
+                })
+                if (!rule) continue
+
+                const blocks = STRUCTURES[rule.structure](random)
+                const baseY = surfaceHeight + 1
+                if (blocks.some(block => baseY + block.dy >= options.maxHeight)) continue
+
+                blocks.forEach(block => {
+                    const x = anchorX + block.dx
+                    const z = anchorZ + block.dz
+                    if (x < x0 || x >= x0 + width || z < z0 || z >= z0 + depth) return
+                    write(x, baseY + block.dy, z, block.type)
+                })
+            }
+        }
+    }
+}
@@ -0,0 +1,61 @@
+// diff.ts
+import { BlockEdit } from '../types/types'
+import { CHUNK_SIZE, ChunkData, blockIndex, chunkKey, worldToChunk } from './chunks'
+import { AIR, getBlockId, getBlockTypeName } from './terrain'
+
+/**
+ * Differenze tra un chunk modificato e lo stesso chunk appena generato.
+ * Le celle `ignored` (es. acqua corrente) contano come aria.
+ */
+export function diffChunk(chunk: ChunkData, baseline: ChunkData, ignored?: (x: number, y: number, z: number) => boolean): BlockEdit[] {
+    const edits: BlockEdit[] = []
+
+    for (let y = 0; y < chunk.height; y++) {
+        for (let lz = 0; lz < CHUNK_SIZE; lz++) {
+            for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+                const index = blockIndex(lx, y, lz)
+                const x = chunk.cx * CHUNK_SIZE + lx
+                const z = chunk.cz * CHUNK_SIZE + lz
+                const id = ignored?.(x, y, z) ? AIR : chunk.blocks[index]
+                const color = chunk.colors.get(index)
+                if (id === baseline.blocks[index] && color === undefined) continue
+
+                const edit: BlockEdit = { x, y, z, type: getBlockTypeName(id) }
+                if (color !== undefined) edit.color = color
+                edits.push(edit)
+            }
+        }
+    }
+
+    return edits
+}
+
+// Raggruppa le modifiche per chunk
+export function groupEditsByChunk(edits: BlockEdit[]): Map<string, { cx: number; cz: number; edits: BlockEdit[] }> {
+    const groups = new Map<string, { cx: number; cz: number; edits: BlockEdit[] }>()
+
+    edits.forEach(edit => {
+        const { cx, cz } = worldToChunk(edit.x, edit.z)
+        const key = chunkKey(cx, cz)
+        if (!groups.has(key)) groups.set(key, { cx, cz, edits: [] })
+        groups.get(key)!.edits.push(edit)
+    })
+
+    return groups
+}
+
+// Applica le modifiche ai dati di un chunk; i tipi sconosciuti vengono ignorati
+export function applyEditsToChunk(chunk: ChunkData, edits: BlockEdit[]) {
+    edits.forEach(edit => {
+        const id = getBlockId(edit.type)
+        if (id < 0 || edit.y < 0 || edit.y >= chunk.height) return
+
+        const index = blockIndex(edit.x - chunk.cx * CHUNK_SIZE, edit.y, edit.z - chunk.cz * CHUNK_SIZE)
+        chunk.blocks[index] = id
+        if (edit.color !== undefined) {
+            chunk.colors.set(index, edit.color)
+        } else {
+            chunk.colors.delete(index)
+        }
+    })
+}
@@ -0,0 +1,244 @@
+// exporter.ts
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/examples/jsm/exporters/GLTFExporter.js'
+import { OBJExporter } from 'three/examples/jsm/exporters/OBJExporter.js'
+import { CHUNK_SIZE, ChunkData, PADDED_SIZE, createPaddedBlocks, paddedIndex } from './chunks'
+import { MeshBuffers, buildChunkMesh, packChunkColors } from './mesher'
+import { AIR, BLOCK_COLORS } from './terrain'
+
+export type ModelFormat = 'glb' | 'obj'
+
+// Box in coordinate di blocco, estremi inclusi
+export interface ExportBounds {
+    min: { x: number; y: number; z: number }
+    max: { x: number; y: number; z: number }
+}
+
+export interface ModelExportOptions {
+    format: ModelFormat
+    bounds?: ExportBounds
+    includeSigns?: boolean
+}
+
+export interface ModelExportSource {
+    name: string
+    chunks: ChunkData[]
+    getColumn: (x: number, z: number) => Uint8Array
+    // Radici dei cartelli renderizzati nella scena, con il blocco d'appoggio in `userData.anchor`
+    signs: THREE.Object3D[]
+}
+
+export interface ExportedFile {
+    name: string
+    blob: Blob
+}
+
+const WATER_OPACITY = 0.8
+
+function chunkIntersects(chunk: ChunkData, bounds: ExportBounds): boolean {
+    const x0 = chunk.cx * CHUNK_SIZE
+    const z0 = chunk.cz * CHUNK_SIZE
+    return x0 <= bounds.max.x && x0 + CHUNK_SIZE - 1 >= bounds.min.x &&
+        z0 <= bounds.max.z && z0 + CHUNK_SIZE - 1 >= bounds.min.z
+}
+
+// Svuota i blocchi fuori dal box: le facce sul taglio restano esposte
+function clipPadded(padded: Uint8Array, chunk: ChunkData, bounds: ExportBounds) {
+    for (let pz = 0; pz < PADDED_SIZE; pz++) {
+        for (let px = 0; px < PADDED_SIZE; px++) {
+            const x = chunk.cx * CHUNK_SIZE + px - 1
+            const z = chunk.cz * CHUNK_SIZE + pz - 1
+            const columnInside = x >= bounds.min.x && x <= bounds.max.x && z >= bounds.min.z && z <= bounds.max.z
+
+            for (let y = 0; y < chunk.height; y++) {
+                if (!columnInside || y < bounds.min.y || y > bounds.max.y) {
+                    padded[paddedIndex(px, y, pz)] = AIR
+                }
+            }
+        }
+    }
+}
+
+/**
+ * Costruisce la scena da esportare e la serializza in glTF binario oppure OBJ + MTL.
+ * Ogni tipo di blocco diventa un materiale con il suo colore base; i blocchi
+ * con un colore personalizzato finiscono in un materiale `tipo-rrggbb` a parte.
+ */
+export async function exportModel(source: ModelExportSource, options: ModelExportOptions): Promise<ExportedFile[]> {
+    const { bounds } = options
+    const scene = new THREE.Scene()
+    const materials = new Map<string, THREE.MeshStandardMaterial>()
+
+    const getMaterial = (name: string, color: THREE.Color, opacity = 1) => {
+        if (!materials.has(name)) {
+            materials.set(name, new THREE.MeshStandardMaterial({
+                name,
+                color,
+                transparent: opacity < 1,
+                opacity
+            }))
+        }
+        return materials.get(name)!
+    }
+
+    const terrain = new THREE.Group()
+    terrain.name = 'terrain'
+    scene.add(terrain)
+
+    source.chunks
+        .filter(chunk => !bounds || chunkIntersects(chunk, bounds))
+        .forEach(chunk => {
+            const padded = createPaddedBlocks(chunk, source.getColumn)
+            if (bounds) clipPadded(padded, chunk, bounds)
+
+            const meshData = buildChunkMesh(chunk.cx, chunk.cz, chunk.height, padded, packChunkColors(chunk))
+            meshData.solids.forEach(buffers => {
+                splitByColor(buffers).forEach(({ geometry, color }, materialName) => {
+                    const mesh = new THREE.Mesh(geometry, getMaterial(materialName, color))
+                    mesh.name = `chunk_${chunk.cx}_${chunk.cz}_${materialName}`
+                    mesh.userData.ownsGeometry = true
+                    terrain.add(mesh)
+                })
+            })
+
+            // Le celle d'acqua fuori dal box sono già state svuotate
+            if (meshData.water) {
+                const water = new THREE.Mesh(
+                    createBufferGeometry(meshData.water),
+                    getMaterial('water', new THREE.Color(BLOCK_COLORS.water), WATER_OPACITY)
+                )
+                water.name = `chunk_${chunk.cx}_${chunk.cz}_water`
+                water.userData.ownsGeometry = true
+                terrain.add(water)
+            }
+        })
+
+    if (options.includeSigns) {
+        const signs = new THREE.Group()
+        signs.name = 'signs'
+        source.signs
+            .filter(sign => !bounds || isInsideBounds(getSignAnchor(sign), bounds))
+            .forEach((sign, i) => signs.add(cloneSign(sign, i, getMaterial)))
+        scene.add(signs)
+    }
+
+    try {
+        return options.format === 'glb'
+            ? [await exportGlb(scene, source.name)]
+            : exportObj(scene, source.name, [...materials.values()])
+    } finally {
+        scene.traverse(object => {
+            if (object instanceof THREE.Mesh && object.userData.ownsGeometry) object.geometry.dispose()
+        })
+        materials.forEach(material => material.dispose())
+    }
+}
+
+// Separa i quad di una geometria in base al colore personalizzato (4 vertici e 6 indici per quad)
+function splitByColor(buffers: MeshBuffers): Map<string, { geometry: THREE.BufferGeometry; color: THREE.Color }> {
+    const groups = new Map<string, { quads: number[]; color: THREE.Color }>()
+    const quadCount = buffers.indices.length / 6
+
+    for (let quad = 0; quad < quadCount; quad++) {
+        const vertex = quad * 4
+        let name = buffers.type
+        let color = new THREE.Color(BLOCK_COLORS[buffers.type])
+        if (buffers.colors[vertex * 4 + 3] > 0) {
+            color = new THREE.Color().setRGB(buffers.colors[vertex * 4], buffers.colors[vertex * 4 + 1], buffers.colors[vertex * 4 + 2])
+            name = `${buffers.type}-${color.getHexString()}`
+        }
+        if (!groups.has(name)) groups.set(name, { quads: [], color })
+        groups.get(name)!.quads.push(quad)
+    }
+
+    const geometries = new Map<string, { geometry: THREE.BufferGeometry; color: THREE.Color }>()
+    groups.forEach(({ quads, color }, name) => {
+        const positions = new Float32Array(quads.length * 12)
+        const normals = new Float32Array(quads.length * 12)
+        const uvs = new Float32Array(quads.length * 8)
+        const indices = new Uint32Array(quads.length * 6)
+
+        quads.forEach((quad, i) => {
+            positions.set(buffers.positions.subarray(quad * 12, quad * 12 + 12), i * 12)
+            normals.set(buffers.normals.subarray(quad * 12, quad * 12 + 12), i * 12)
+            uvs.set(buffers.uvs.subarray(quad * 8, quad * 8 + 8), i * 8)
+            const base = i * 4
+            indices.set([base, base + 1, base + 2, base, base + 2, base + 3], i * 6)
+        })
+
+        geometries.set(name, { geometry: createBufferGeometry({ ...buffers, positions, normals, uvs, indices }), color })
+    })
+
+    return geometries
+}
+
+// Senza l'attributo dei colori personalizzati, che nei file esportati diventano materiali
+function createBufferGeometry(buffers: Omit<MeshBuffers, 'type' | 'colors'>): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3))
+    geometry.setAttribute('normal', new THREE.BufferAttribute(buffers.normals, 3))
+    geometry.setAttribute('uv', new THREE.BufferAttribute(buffers.uvs, 2))
+    geometry.setIndex(new THREE.BufferAttribute(buffers.indices, 1))
+    return geometry
+}
+
+function isInsideBounds(position: THREE.Vector3, bounds: ExportBounds): boolean {
+    return position.x >= bounds.min.x - 0.5 && position.x <= bounds.max.x + 0.5 &&
+        position.y >= bounds.min.y - 0.5 && position.y <= bounds.max.y + 0.5 &&
+        position.z >= bounds.min.z - 0.5 && position.z <= bounds.max.z + 0.5
+}
+
+// Un cartello sta nell'area se ci sta il blocco su cui poggia, non il centro del pannello
+function getSignAnchor(root: THREE.Object3D): THREE.Vector3 {
+    return root.userData.anchor instanceof THREE.Vector3 ? root.userData.anchor : root.position
+}
+
+// Solo palo, cornice e pannello: il testo è renderizzato con SDF e non è esportabile
+function cloneSign(
+    root: THREE.Object3D,
+    index: number,
+    getMaterial: (name: string, color: THREE.Color) => THREE.MeshStandardMaterial
+): THREE.Group {
+    const sign = new THREE.Group()
+    sign.name = `sign_${index}`
+    sign.position.copy(root.position)
+    sign.quaternion.copy(root.quaternion)
+
+    root.children.forEach(child => {
+        if (!(child instanceof THREE.Mesh) || !(child.material instanceof THREE.MeshStandardMaterial)) return
+
+        const color = child.material.color
+        const mesh = new THREE.Mesh(child.geometry, getMaterial(`sign-${child.name}-${color.getHexString()}`, color.clone()))
+        mesh.name = `${sign.name}_${child.name}`
+        mesh.position.copy(child.position)
+        mesh.quaternion.copy(child.quaternion)
+        sign.add(mesh)
+    })
+
+    return sign
+}
+
+async function exportGlb(scene: THREE.Scene, name: string): Promise<ExportedFile> {
+    const result = await new GLTFExporter().parseAsync(scene, { binary: true })
+    return { name: `${name}.glb`, blob: new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' }) }
+}
+
+// L'OBJExporter scrive solo `usemtl`: il file MTL con i colori si genera qui
+function exportObj(scene: THREE.Scene, name: string, materials: THREE.MeshStandardMaterial[]): ExportedFile[] {
+    scene.updateMatrixWorld()
+    const obj = `mtllib ${name}.mtl\n${new OBJExporter().parse(scene)}`
+    const rgb = { r: 0, g: 0, b: 0 }
+    const mtl = materials.map(material => {
+        material.color.getRGB(rgb, THREE.SRGBColorSpace)
+        return [
+            `newmtl ${material.name}`,
+            `Kd ${rgb.r.toFixed(4)} ${rgb.g.toFixed(4)} ${rgb.b.toFixed(4)}`,
+            `d ${material.opacity}`
+        ].join('\n')
+    }).join('\n\n')
+
+    return [
+        { name: `${name}.obj`, blob: new Blob([obj], { type: 'text/plain' }) },
+        { name: `${name}.mtl`, blob: new Blob([mtl], { type: 'text/plain' }) }
+    ]
+}
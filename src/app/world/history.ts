@@ -0,0 +1,123 @@
+// history.ts
+
+export interface BlockState {
+    id: number
+    color?: string | number
+}
+
+export interface BlockChange {
+    position: { x: number; y: number; z: number }
+    before: BlockState
+    after: BlockState
+}
+
+export type EditKind = 'add' | 'remove' | 'change' | 'color'
+
+// Passo annullabile: i cambi di un'azione, il tipo e l'ora dell'ultima modifica (ms)
+interface HistoryStep {
+    kind: EditKind | 'batch'
+    time: number
+    changes: BlockChange[]
+}
+
+// Numero massimo di passi annullabili
+const HISTORY_LIMIT = 200
+// Cambi di colore più ravvicinati di così appartengono allo stesso trascinamento del color picker
+const COLOR_GESTURE_WINDOW = 500
+
+function samePosition(a: BlockChange, b: BlockChange): boolean {
+    return a.position.x === b.position.x && a.position.y === b.position.y && a.position.z === b.position.z
+}
+
+/**
+ * Cronologia delle modifiche al mondo. Ogni passo è una lista di cambi di blocco:
+ * le modifiche registrate dentro `batch` finiscono in un unico passo annullabile.
+ */
+export class EditHistory {
+    private undoStack: HistoryStep[] = []
+    private redoStack: HistoryStep[] = []
+    private group: BlockChange[] | null = null
+    private groupDepth = 0
+
+    /**
+     * Registra un cambio. Solo i cambi di colore consecutivi sullo stesso blocco, entro
+     * COLOR_GESTURE_WINDOW l'uno dall'altro, aggiornano il passo precedente invece di
+     * crearne uno nuovo: un trascinamento del color picker si annulla in una volta.
+     */
+    record(change: BlockChange, kind: EditKind, time = Date.now()) {
+        this.redoStack = []
+
+        if (this.group) {
+            this.group.push(change)
+            return
+        }
+
+        const last = this.undoStack[this.undoStack.length - 1]
+        if (
+            kind === 'color' && last?.kind === 'color' &&
+            time - last.time < COLOR_GESTURE_WINDOW &&
+            last.changes.length === 1 && samePosition(last.changes[0], change)
+        ) {
+            last.changes[0] = { ...last.changes[0], after: change.after }
+            last.time = time
+            return
+        }
+
+        this.push({ kind, time, changes: [change] })
+    }
+
+    private push(step: HistoryStep) {
+        this.undoStack.push(step)
+        if (this.undoStack.length > HISTORY_LIMIT) this.undoStack.shift()
+    }
+
+    batch(fn: () => void) {
+        if (this.groupDepth === 0) this.group = []
+        this.groupDepth++
+        try {
+            fn()
+        } finally {
+            this.groupDepth--
+            if (this.groupDepth === 0) {
+                const group = this.group!
+                this.group = null
+                if (group.length > 0) this.push({ kind: 'batch', time: Date.now(), changes: group })
+            }
+        }
+    }
+
+    // Restituisce il passo da annullare: applicare `before` in ordine inverso
+    undo(): BlockChange[] | null {
+        const step = this.undoStack.pop()
+        if (!step) return null
+        this.redoStack.push(step)
+        // Dopo un annullamento il passo precedente non si fonde più con i cambi successivi
+        const previous = this.undoStack[this.undoStack.length - 1]
+        if (previous) previous.time = -Infinity
+        return step.changes
+    }
+
+    // Restituisce il passo da ripetere: applicare `after` in ordine
+    redo(): BlockChange[] | null {
+        const step = this.redoStack.pop()
+        if (!step) return null
+        step.time = -Infinity
+        this.undoStack.push(step)
+        return step.changes
+    }
+
+    canUndo() {
+        return this.undoStack.length > 0
+    }
+
+    canRedo() {
+        return this.redoStack.length > 0
+    }
+
+    clear() {
+        this.undoStack = []
+        this.redoStack = []
+        this.group = null
+        this.groupDepth = 0
+    }
+}
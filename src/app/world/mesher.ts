@@ -0,0 +1,233 @@
+// mesher.ts
+import * as THREE from 'three'
+import { CHUNK_SIZE, ChunkData, blockIndex, paddedIndex } from './chunks'
+import { AIR, WATER, getBlockTypeName, isSolidBlock } from './terrain'
+
+// Buffer di una geometria, trasferibili dal worker senza copie
+export interface MeshBuffers {
+    type: string
+    positions: Float32Array
+    normals: Float32Array
+    uvs: Float32Array
+    // RGBA per vertice: alpha 1 se il blocco ha un colore personalizzato
+    colors: Float32Array
+    indices: Uint32Array
+}
+
+// Colori personalizzati dei blocchi di un chunk, come inviati al worker
+export interface ChunkColors {
+    indices: Uint32Array
+    values: Float32Array
+}
+
+const NO_COLORS: ChunkColors = { indices: new Uint32Array(0), values: new Float32Array(0) }
+// Il tipo occupa gli 8 bit bassi della chiave, il colore quelli alti
+const TYPE_BITS = 8
+const TYPE_MASK = (1 << TYPE_BITS) - 1
+
+// Converte i colori personalizzati in RGB lineare per il worker
+export function packChunkColors(chunk: ChunkData): ChunkColors {
+    const indices = new Uint32Array(chunk.colors.size)
+    const values = new Float32Array(chunk.colors.size * 3)
+    const color = new THREE.Color()
+
+    let i = 0
+    chunk.colors.forEach((value, index) => {
+        color.set(value)
+        indices[i] = index
+        values.set([color.r, color.g, color.b], i * 3)
+        i++
+    })
+
+    return { indices, values }
+}
+
+export interface ChunkMeshData {
+    // Una geometria per tipo di blocco
+    solids: MeshBuffers[]
+    // Facce dell'acqua esposte all'aria, con un materiale trasparente a parte
+    water: MeshBuffers | null
+}
+
+class GeometryBuilder {
+    positions: number[] = []
+    normals: number[] = []
+    uvs: number[] = []
+    colors: number[] = []
+    indices: number[] = []
+
+    // Quad con vertici in senso antiorario visti dal lato della normale
+    addQuad(corners: number[][], normal: number[], width: number, height: number, color: number[]) {
+        const base = this.positions.length / 3
+        corners.forEach(corner => this.positions.push(corner[0], corner[1], corner[2]))
+        for (let i = 0; i < 4; i++) {
+            this.normals.push(normal[0], normal[1], normal[2])
+            this.colors.push(color[0], color[1], color[2], color[3])
+        }
+        this.uvs.push(0, 0, width, 0, width, height, 0, height)
+        this.indices.push(base, base + 1, base + 2, base, base + 2, base + 3)
+    }
+
+    toBuffers(type: string): MeshBuffers {
+        return {
+            type,
+            positions: new Float32Array(this.positions),
+            normals: new Float32Array(this.normals),
+            uvs: new Float32Array(this.uvs),
+            colors: new Float32Array(this.colors),
+            indices: new Uint32Array(this.indices)
+        }
+    }
+}
+
+/**
+ * Greedy meshing: per ogni direzione genera solo le facce esposte
+ * e unisce i rettangoli complanari dello stesso tipo in un unico quad.
+ * L'acqua non nasconde le facce dei blocchi e mostra solo quelle verso l'aria.
+ */
+export function buildChunkMesh(
+    cx: number,
+    cz: number,
+    height: number,
+    padded: Uint8Array,
+    chunkColors: ChunkColors = NO_COLORS
+): ChunkMeshData {
+    const builders = new Map<number, GeometryBuilder>()
+    const dims = [CHUNK_SIZE, height, CHUNK_SIZE]
+    const origin = [cx * CHUNK_SIZE, 0, cz * CHUNK_SIZE]
+
+    // Coordinate locali, bordo compreso; sotto il mondo è pieno, sopra è aria
+    const getId = (x: number, y: number, z: number) => {
+        if (y < 0) return -1
+        if (y >= height) return AIR
+        return padded[paddedIndex(x + 1, y, z + 1)]
+    }
+    const isSolid = (id: number) => id === -1 || isSolidBlock(id)
+
+    // Palette dei colori: lo slot 0 indica il colore base del materiale
+    const palette: number[][] = [[1, 1, 1, 0]]
+    const colorSlots = new Map<number, number>()
+    const paletteSlots = new Map<string, number>()
+    chunkColors.indices.forEach((index, i) => {
+        const rgb = [chunkColors.values[i * 3], chunkColors.values[i * 3 + 1], chunkColors.values[i * 3 + 2]]
+        const paletteKey = rgb.join(',')
+        if (!paletteSlots.has(paletteKey)) {
+            paletteSlots.set(paletteKey, palette.length)
+            palette.push([...rgb, 1])
+        }
+        colorSlots.set(index, paletteSlots.get(paletteKey)!)
+    })
+
+    const position = [0, 0, 0]
+    for (let d = 0; d < 3; d++) {
+        const u = (d + 1) % 3
+        const v = (d + 2) % 3
+        const sizeU = dims[u]
+        const sizeV = dims[v]
+        const mask = new Int32Array(sizeU * sizeV)
+
+        for (const direction of [-1, 1]) {
+            const normal = [0, 0, 0]
+            normal[d] = direction
+
+            for (let slice = 0; slice < dims[d]; slice++) {
+                // Maschera delle facce esposte in questo piano
+                for (let j = 0; j < sizeV; j++) {
+                    for (let i = 0; i < sizeU; i++) {
+                        position[d] = slice
+                        position[u] = i
+                        position[v] = j
+                        const id = getId(position[0], position[1], position[2])
+
+                        position[d] = slice + direction
+                        const neighbor = getId(position[0], position[1], position[2])
+
+                        if ((isSolid(id) && !isSolid(neighbor)) || (id === WATER && neighbor === AIR)) {
+                            position[d] = slice
+                            const slot = colorSlots.get(blockIndex(position[0], position[1], position[2])) ?? 0
+                            mask[i + j * sizeU] = id | (slot << TYPE_BITS)
+                        } else {
+                            mask[i + j * sizeU] = 0
+                        }
+                    }
+                }
+
+                // Unione dei rettangoli con lo stesso tipo
+                for (let j = 0; j < sizeV; j++) {
+                    for (let i = 0; i < sizeU;) {
+                        const faceKey = mask[i + j * sizeU]
+                        if (faceKey === 0) {
+                            i++
+                            continue
+                        }
+
+                        let width = 1
+                        while (i + width < sizeU && mask[i + width + j * sizeU] === faceKey) width++
+
+                        let rows = 1
+                        grow: while (j + rows < sizeV) {
+                            for (let k = 0; k < width; k++) {
+                                if (mask[i + k + (j + rows) * sizeU] !== faceKey) break grow
+                            }
+                            rows++
+                        }
+
+                        const plane = origin[d] + slice + direction * 0.5
+                        const u0 = origin[u] + i - 0.5
+                        const u1 = u0 + width
+                        const v0 = origin[v] + j - 0.5
+                        const v1 = v0 + rows
+                        const corners = [[u0, v0], [u1, v0], [u1, v1], [u0, v1]].map(([cu, cv]) => {
+                            const corner = [0, 0, 0]
+                            corner[d] = plane
+                            corner[u] = cu
+                            corner[v] = cv
+                            return corner
+                        })
+                        if (direction < 0) corners.reverse()
+
+                        const id = faceKey & TYPE_MASK
+                        const color = palette[faceKey >> TYPE_BITS]
+                        if (!builders.has(id)) builders.set(id, new GeometryBuilder())
+                        builders.get(id)!.addQuad(corners, normal, width, rows, color)
+
+                        for (let l = 0; l < rows; l++) {
+                            mask.fill(0, i + (j + l) * sizeU, i + width + (j + l) * sizeU)
+                        }
+                        i += width
+                    }
+                }
+            }
+        }
+    }
+
+    const solids: MeshBuffers[] = []
+    builders.forEach((builder, id) => {
+        if (id !== WATER) solids.push(builder.toBuffers(getBlockTypeName(id)))
+    })
+
+    return { solids, water: builders.get(WATER)?.toBuffers('water') ?? null }
+}
+
+export function getMeshTransferables(mesh: ChunkMeshData): ArrayBuffer[] {
+    const geometries = mesh.water ? [...mesh.solids, mesh.water] : mesh.solids
+    return geometries.flatMap(buffers => [
+        buffers.positions.buffer as ArrayBuffer,
+        buffers.normals.buffer as ArrayBuffer,
+        buffers.uvs.buffer as ArrayBuffer,
+        buffers.colors.buffer as ArrayBuffer,
+        buffers.indices.buffer as ArrayBuffer
+    ])
+}
+
+// Ricostruisce la geometria sul main thread a partire dai buffer del worker
+export function createGeometry(buffers: MeshBuffers): THREE.BufferGeometry {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(buffers.positions, 3))
+    geometry.setAttribute('normal', new THREE.BufferAttribute(buffers.normals, 3))
+    geometry.setAttribute('uv', new THREE.BufferAttribute(buffers.uvs, 2))
+    geometry.setAttribute('blockColor', new THREE.BufferAttribute(buffers.colors, 4))
+    geometry.setIndex(new THREE.BufferAttribute(buffers.indices, 1))
+    geometry.computeBoundingSphere()
+    return geometry
+}
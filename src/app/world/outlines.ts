@@ -0,0 +1,88 @@
+// outlines.ts
+import * as THREE from 'three'
+
+// Leggermente più grande del blocco per evitare z-fighting
+const OUTLINE_SIZE = 1.02
+
+interface Outline {
+    object: THREE.Group
+    edgeMaterial: THREE.LineBasicMaterial
+    fillMaterial: THREE.MeshBasicMaterial
+}
+
+function ignoreRaycast() {}
+
+/**
+ * Evidenziazione dei blocchi tramite mesh sovrapposte: bordi + riempimento emissivo.
+ * Indipendente dalle mesh del terreno, quindi non richiede ricostruzioni.
+ * Più contorni possono convivere, distinti da un id (es. 'hover' e 'selection').
+ */
+export class BlockOutlines {
+    readonly group = new THREE.Group()
+    private outlines = new Map<string, Outline>()
+    private boxGeometry = new THREE.BoxGeometry(OUTLINE_SIZE, OUTLINE_SIZE, OUTLINE_SIZE)
+    private edgesGeometry = new THREE.EdgesGeometry(this.boxGeometry)
+
+    private getKey(position: { x: number; y: number; z: number }, id: string) {
+        return `${id}:${position.x},${position.y},${position.z}`
+    }
+
+    private create(position: { x: number; y: number; z: number }): Outline {
+        const edgeMaterial = new THREE.LineBasicMaterial({ transparent: true, depthTest: false })
+        const fillMaterial = new THREE.MeshBasicMaterial({ transparent: true, depthWrite: false, toneMapped: false })
+
+        const edges = new THREE.LineSegments(this.edgesGeometry, edgeMaterial)
+        const fill = new THREE.Mesh(this.boxGeometry, fillMaterial)
+        edges.raycast = ignoreRaycast
+        fill.raycast = ignoreRaycast
+        edges.renderOrder = 2
+
+        const object = new THREE.Group()
+        object.position.set(position.x, position.y, position.z)
+        object.add(fill, edges)
+        this.group.add(object)
+
+        return { object, edgeMaterial, fillMaterial }
+    }
+
+    set(position: { x: number; y: number; z: number }, color: string | number, emissiveIntensity: number, id: string) {
+        const key = this.getKey(position, id)
+        let outline = this.outlines.get(key)
+        if (!outline) {
+            outline = this.create(position)
+            this.outlines.set(key, outline)
+        }
+
+        const intensity = THREE.MathUtils.clamp(emissiveIntensity, 0, 1)
+        outline.edgeMaterial.color.set(color)
+        outline.edgeMaterial.opacity = 0.4 + intensity * 0.6
+        outline.fillMaterial.color.set(color)
+        outline.fillMaterial.opacity = intensity * 0.35
+    }
+
+    remove(position: { x: number; y: number; z: number }, id: string) {
+        const key = this.getKey(position, id)
+        const outline = this.outlines.get(key)
+        if (!outline) return
+
+        this.group.remove(outline.object)
+        outline.edgeMaterial.dispose()
+        outline.fillMaterial.dispose()
+        this.outlines.delete(key)
+    }
+
+    clear() {
+        this.outlines.forEach(outline => {
+            this.group.remove(outline.object)
+            outline.edgeMaterial.dispose()
+            outline.fillMaterial.dispose()
+        })
+        this.outlines.clear()
+    }
+
+    dispose() {
+        this.clear()
+        this.boxGeometry.dispose()
+        this.edgesGeometry.dispose()
+    }
+}
@@ -0,0 +1,173 @@
+// physics.ts
+
+// Blocchi centrati sulle coordinate intere: la cella di una coordinata è floor(c + 0.5)
+export interface PhysicsWorld {
+    isSolid: (x: number, y: number, z: number) => boolean
+    isWater: (x: number, y: number, z: number) => boolean
+}
+
+export interface PlayerBody {
+    // Posizione dei piedi, al centro della base del box
+    position: { x: number; y: number; z: number }
+    velocity: { x: number; y: number; z: number }
+    onGround: boolean
+    inWater: boolean
+}
+
+export interface PlayerInput {
+    // Direzione desiderata sul piano orizzontale, lunghezza al massimo 1
+    moveX: number
+    moveZ: number
+    jump: boolean
+    sprint: boolean
+}
+
+export const PLAYER_WIDTH = 0.6
+export const PLAYER_HEIGHT = 1.8
+export const EYE_HEIGHT = 1.6
+
+const WALK_SPEED = 4.5
+const SPRINT_SPEED = 7.5
+const SWIM_SPEED = 2.5
+const GRAVITY = 28
+const JUMP_SPEED = 8.5
+const WATER_GRAVITY = 6
+const SWIM_UP_SPEED = 3
+const MAX_FALL_SPEED = 50
+const MAX_SINK_SPEED = 2
+// Accelerazione verso la velocità desiderata: in aria si corregge poco la traiettoria
+const GROUND_ACCELERATION = 40
+const AIR_ACCELERATION = 8
+const STEP_HEIGHT = 1
+// Spostamento massimo per sotto-passo, sotto mezzo blocco non si attraversano pareti
+const MAX_SUBSTEP = 0.4
+const EPSILON = 1e-4
+// Distanza sotto i piedi entro cui si è ancora appoggiati
+const GROUND_PROBE = 0.01
+
+type Axis = 'x' | 'y' | 'z'
+
+export function createPlayerBody(x: number, y: number, z: number): PlayerBody {
+    return {
+        position: { x, y, z },
+        velocity: { x: 0, y: 0, z: 0 },
+        onGround: false,
+        inWater: false
+    }
+}
+
+function toCell(value: number): number {
+    return Math.floor(value + 0.5)
+}
+
+// Celle piene che intersecano il box dei piedi in `position`
+function forEachOverlappingSolid(
+    world: PhysicsWorld,
+    position: { x: number; y: number; z: number },
+    visit: (x: number, y: number, z: number) => void
+) {
+    const half = PLAYER_WIDTH / 2
+    const minX = toCell(position.x - half + EPSILON)
+    const maxX = toCell(position.x + half - EPSILON)
+    const minY = toCell(position.y + EPSILON)
+    const maxY = toCell(position.y + PLAYER_HEIGHT - EPSILON)
+    const minZ = toCell(position.z - half + EPSILON)
+    const maxZ = toCell(position.z + half - EPSILON)
+
+    for (let y = minY; y <= maxY; y++) {
+        for (let z = minZ; z <= maxZ; z++) {
+            for (let x = minX; x <= maxX; x++) {
+                if (world.isSolid(x, y, z)) visit(x, y, z)
+            }
+        }
+    }
+}
+
+function collides(world: PhysicsWorld, position: { x: number; y: number; z: number }): boolean {
+    let hit = false
+    forEachOverlappingSolid(world, position, () => { hit = true })
+    return hit
+}
+
+// Sposta il box lungo un asse fermandolo contro la prima cella piena; restituisce true se urta
+function moveAxis(world: PhysicsWorld, body: PlayerBody, axis: Axis, delta: number): boolean {
+    if (delta === 0) return false
+
+    const next = { ...body.position, [axis]: body.position[axis] + delta }
+    const offsets = axis === 'y' ? { min: 0, max: PLAYER_HEIGHT } : { min: -PLAYER_WIDTH / 2, max: PLAYER_WIDTH / 2 }
+    let limit = next[axis]
+    let blocked = false
+
+    forEachOverlappingSolid(world, next, (x, y, z) => {
+        const cell = { x, y, z }[axis]
+        blocked = true
+        limit = delta > 0
+            ? Math.min(limit, cell - 0.5 - offsets.max - EPSILON)
+            : Math.max(limit, cell + 0.5 - offsets.min + EPSILON)
+    })
+
+    body.position[axis] = blocked ? limit : next[axis]
+    return blocked
+}
+
+// Movimento orizzontale con salita automatica sui gradini di un blocco
+function moveHorizontal(world: PhysicsWorld, body: PlayerBody, axis: 'x' | 'z', delta: number) {
+    const start = { ...body.position }
+    if (!moveAxis(world, body, axis, delta)) return
+
+    if (!body.onGround && !body.inWater) {
+        body.velocity[axis] = 0
+        return
+    }
+
+    const raised = { ...start, y: start.y + STEP_HEIGHT + EPSILON }
+    const stepped = { ...raised, [axis]: start[axis] + delta }
+    if (collides(world, raised) || collides(world, stepped)) {
+        body.velocity[axis] = 0
+        return
+    }
+
+    // Si sale sul gradino e ci si riappoggia sopra
+    Object.assign(body.position, stepped)
+    moveAxis(world, body, 'y', -STEP_HEIGHT)
+}
+
+/**
+ * Un passo di fisica del giocatore: gravità, salto, nuoto e collisioni box/voxel
+ * risolte un asse alla volta, in sotto-passi abbastanza corti da non saltare i blocchi.
+ */
+export function stepPlayer(body: PlayerBody, input: PlayerInput, world: PhysicsWorld, dt: number) {
+    const { position, velocity } = body
+    body.inWater = world.isWater(toCell(position.x), toCell(position.y + PLAYER_HEIGHT / 2), toCell(position.z))
+
+    const speed = body.inWater ? SWIM_SPEED : input.sprint ? SPRINT_SPEED : WALK_SPEED
+    const acceleration = body.onGround || body.inWater ? GROUND_ACCELERATION : AIR_ACCELERATION
+    const blend = Math.min(1, acceleration * dt / speed)
+    velocity.x += (input.moveX * speed - velocity.x) * blend
+    velocity.z += (input.moveZ * speed - velocity.z) * blend
+
+    if (body.inWater) {
+        velocity.y = input.jump
+            ? SWIM_UP_SPEED
+            : Math.max(velocity.y - WATER_GRAVITY * dt, -MAX_SINK_SPEED)
+    } else {
+        if (input.jump && body.onGround) velocity.y = JUMP_SPEED
+        velocity.y = Math.max(velocity.y - GRAVITY * dt, -MAX_FALL_SPEED)
+    }
+
+    const distance = Math.max(Math.abs(velocity.x), Math.abs(velocity.y), Math.abs(velocity.z)) * dt
+    const substeps = Math.max(1, Math.ceil(distance / MAX_SUBSTEP))
+    const stepDt = dt / substeps
+
+    for (let i = 0; i < substeps; i++) {
+        const falling = velocity.y <= 0
+        if (moveAxis(world, body, 'y', velocity.y * stepDt)) {
+            body.onGround = falling
+            velocity.y = 0
+        } else {
+            body.onGround = falling && collides(world, { ...body.position, y: body.position.y - GROUND_PROBE })
+        }
+        moveHorizontal(world, body, 'x', velocity.x * stepDt)
+        moveHorizontal(world, body, 'z', velocity.z * stepDt)
+    }
+}
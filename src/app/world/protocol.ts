@@ -0,0 +1,51 @@
+// protocol.ts
+import { ChunkMeshData } from './mesher'
+import { TerrainConfig } from './terrain'
+import { ReservedArea } from './decorations'
+
+// Messaggi scambiati tra VoxelWorld e terrain.worker
+
+export interface GenerateChunkRequest {
+    type: 'generate'
+    generation: number
+    seed: number
+    config: TerrainConfig
+    reserved: ReservedArea[]
+    cx: number
+    cz: number
+}
+
+export interface MeshChunkRequest {
+    type: 'mesh'
+    generation: number
+    cx: number
+    cz: number
+    height: number
+    // Blocchi del chunk con un bordo di un blocco preso dai vicini
+    padded: Uint8Array
+    // Colori personalizzati: indice del blocco nel chunk + RGB lineare (3 valori per blocco)
+    colorIndices: Uint32Array
+    colorValues: Float32Array
+}
+
+export type WorkerRequest = GenerateChunkRequest | MeshChunkRequest
+
+export interface ChunkGeneratedResponse {
+    type: 'generated'
+    generation: number
+    cx: number
+    cz: number
+    height: number
+    blocks: Uint8Array
+    mesh: ChunkMeshData
+}
+
+export interface ChunkMeshedResponse {
+    type: 'meshed'
+    generation: number
+    cx: number
+    cz: number
+    mesh: ChunkMeshData
+}
+
+export type WorkerResponse = ChunkGeneratedResponse | ChunkMeshedResponse
@@ -0,0 +1,46 @@
+// raycast.ts
+
+// Visita restituisce true per interrompere l'attraversamento
+export type VoxelVisitor = (x: number, y: number, z: number) => boolean
+
+/**
+ * Attraversa in ordine tutte le celle toccate dal segmento from → to (Amanatides & Woo).
+ * I blocchi sono centrati sulle coordinate intere, quindi la cella di un punto è floor(p + 0.5).
+ * Restituisce true se la visita è stata interrotta.
+ */
+export function traverseVoxels(
+    from: { x: number; y: number; z: number },
+    to: { x: number; y: number; z: number },
+    visit: VoxelVisitor
+): boolean {
+    const start = [from.x + 0.5, from.y + 0.5, from.z + 0.5]
+    const end = [to.x + 0.5, to.y + 0.5, to.z + 0.5]
+    const cell = start.map(Math.floor)
+    const last = end.map(Math.floor)
+    const delta = end.map((value, axis) => value - start[axis])
+
+    const step = delta.map(Math.sign)
+    // Frazione di segmento per attraversare una cella lungo ogni asse
+    const tDelta = delta.map(value => value === 0 ? Infinity : Math.abs(1 / value))
+    // Frazione di segmento al primo bordo di cella lungo ogni asse
+    const tMax = delta.map((value, axis) => {
+        if (value === 0) return Infinity
+        const boundary = value > 0 ? cell[axis] + 1 : cell[axis]
+        return (boundary - start[axis]) / value
+    })
+
+    // Il numero di celle è limitato dalla distanza di Manhattan tra le celle estreme
+    const steps = Math.abs(last[0] - cell[0]) + Math.abs(last[1] - cell[1]) + Math.abs(last[2] - cell[2])
+
+    for (let i = 0; i <= steps; i++) {
+        if (visit(cell[0], cell[1], cell[2])) return true
+
+        const axis = tMax[0] < tMax[1]
+            ? (tMax[0] < tMax[2] ? 0 : 2)
+            : (tMax[1] < tMax[2] ? 1 : 2)
+        cell[axis] += step[axis]
+        tMax[axis] += tDelta[axis]
+    }
+
+    return false
+}
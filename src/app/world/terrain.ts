@@ -0,0 +1,333 @@
+// terrain.ts
+import { createNoise2D, createNoise3D, NoiseFunction2D } from 'simplex-noise'
+import { createRandom } from '../utils/random'
+import { CHUNK_SIZE, ChunkData, blockIndex, createChunk } from './chunks'
+import { Biome, DEFAULT_BIOME, createBiomeSampler } from './biomes'
+import { ReservedArea, createDecorator } from './decorations'
+
+// Parametri della generazione procedurale
+export interface TerrainConfig {
+    // Lato dell'area caricata attorno alla camera (in blocchi)
+    worldSize: number
+    maxHeight: number
+    waterLevel: number
+    // Sotto questa quota la superficie è sabbia
+    beachHeight: number
+    // Sopra queste quote la superficie è roccia o neve
+    rockHeight: number
+    snowHeight: number
+    noiseScale: number
+    octaves: number
+    lacunarity: number
+    persistence: number
+    terrainOffset: number
+    // Modalità densità 3D (0 = disattivata): gallerie scavate sotto la superficie
+    caveDensity: number
+    // Modalità densità 3D (0 = disattivata): sporgenze e archi attorno alla superficie
+    overhangStrength: number
+}
+
+export const DEFAULT_TERRAIN_CONFIG: TerrainConfig = {
+    worldSize: 128,
+    maxHeight: 40,
+    waterLevel: 12,
+    beachHeight: 15,
+    rockHeight: 22,
+    snowHeight: 28,
+    noiseScale: 30,
+    octaves: 2,
+    lacunarity: 2.0,
+    persistence: 0.5,
+    terrainOffset: -2,
+    caveDensity: 0,
+    overhangStrength: 0
+}
+
+export const TERRAIN_PRESETS: Record<string, TerrainConfig> = {
+    default: DEFAULT_TERRAIN_CONFIG,
+    // Terre basse e sparse in mezzo al mare
+    islands: {
+        ...DEFAULT_TERRAIN_CONFIG,
+        waterLevel: 16,
+        beachHeight: 18,
+        rockHeight: 26,
+        snowHeight: 34,
+        noiseScale: 22,
+        octaves: 3,
+        terrainOffset: -6,
+        overhangStrength: 0.4
+    },
+    // Montagne alte e frastagliate con cime innevate
+    alpine: {
+        ...DEFAULT_TERRAIN_CONFIG,
+        maxHeight: 64,
+        waterLevel: 8,
+        beachHeight: 10,
+        rockHeight: 30,
+        snowHeight: 40,
+        noiseScale: 45,
+        octaves: 4,
+        persistence: 0.55,
+        terrainOffset: 0,
+        caveDensity: 0.6,
+        overhangStrength: 0.7
+    },
+    // Pianure quasi piatte, poca acqua
+    flatlands: {
+        ...DEFAULT_TERRAIN_CONFIG,
+        maxHeight: 24,
+        waterLevel: 7,
+        beachHeight: 8,
+        rockHeight: 18,
+        snowHeight: 22,
+        noiseScale: 80,
+        octaves: 2,
+        persistence: 0.3,
+        terrainOffset: 0
+    }
+}
+
+// Intervalli ammessi dei parametri: fuori da qui la generazione si blocca o non ha senso
+export const TERRAIN_LIMITS: Record<keyof TerrainConfig, { min: number, max: number, integer?: boolean }> = {
+    worldSize: { min: 16, max: 512, integer: true },
+    maxHeight: { min: 1, max: 128, integer: true },
+    waterLevel: { min: 0, max: 128, integer: true },
+    beachHeight: { min: 0, max: 128, integer: true },
+    rockHeight: { min: 0, max: 128, integer: true },
+    snowHeight: { min: 0, max: 128, integer: true },
+    noiseScale: { min: 1, max: 500 },
+    octaves: { min: 1, max: 8, integer: true },
+    lacunarity: { min: 1, max: 8 },
+    persistence: { min: 0, max: 1 },
+    terrainOffset: { min: -64, max: 64, integer: true },
+    caveDensity: { min: 0, max: 1 },
+    overhangStrength: { min: 0, max: 1 }
+}
+
+export function isSameTerrainConfig(a: TerrainConfig, b: TerrainConfig): boolean {
+    return (Object.keys(DEFAULT_TERRAIN_CONFIG) as (keyof TerrainConfig)[]).every(key => a[key] === b[key])
+}
+
+// Id 0 riservato all'aria; i tipi nuovi vanno in coda per non cambiare gli id esistenti
+export const BLOCK_TYPES = [
+    'air', 'grass', 'dirt', 'stone', 'sand', 'snow', 'rock', 'water',
+    'forest_grass', 'sandstone', 'mud', 'clay', 'ice',
+    'wood', 'leaves', 'cactus', 'cobblestone'
+]
+export const AIR = 0
+export const WATER = BLOCK_TYPES.indexOf('water')
+
+// Colore base di ogni tipo di blocco, usato dai materiali e dalle anteprime
+export const BLOCK_COLORS: Record<string, number> = {
+    grass: 0x6a994e,
+    dirt: 0x8B4513,
+    stone: 0x696969,
+    sand: 0xF4A460,
+    snow: 0xFFFAFA,
+    rock: 0x654321,
+    forest_grass: 0x3d6b35,
+    sandstone: 0xD2B48C,
+    mud: 0x4E3B2A,
+    clay: 0x9C8B7A,
+    ice: 0xBFE6F2,
+    wood: 0x6B4423,
+    leaves: 0x2F5D2A,
+    cactus: 0x4F7942,
+    cobblestone: 0x7A7A7A,
+    water: 0x4A7FD9
+}
+
+export function getBlockId(type: string): number {
+    return BLOCK_TYPES.indexOf(type)
+}
+
+export function getBlockTypeName(id: number): string {
+    return BLOCK_TYPES[id] ?? 'air'
+}
+
+// Aria e acqua non nascondono le facce dei blocchi vicini
+export function isSolidBlock(id: number): boolean {
+    return id !== AIR && id !== WATER
+}
+
+// Sporgenze: fascia attorno alla superficie in cui la densità 3D può cambiare il pieno/vuoto
+const OVERHANG_RANGE = 8
+const OVERHANG_SCALE = 18
+const OVERHANG_SCALE_Y = 10
+// Grotte: gallerie larghe al massimo CAVE_WIDTH (in unità di rumore), mai sotto CAVE_FLOOR
+const CAVE_WIDTH = 0.18
+const CAVE_SCALE = 28
+const CAVE_SCALE_Y = 16
+const CAVE_FLOOR = 2
+
+// Rumore semplificato
+function getFractalNoise(noise2D: NoiseFunction2D, x: number, z: number, config: TerrainConfig): number {
+    let total = 0
+    let frequency = 1
+    let amplitude = 1
+    let maxValue = 0
+
+    for (let i = 0; i < config.octaves; i++) {
+        total += noise2D(x * frequency, z * frequency) * amplitude
+        maxValue += amplitude
+        amplitude *= config.persistence
+        frequency *= config.lacunarity
+    }
+
+    return total / maxValue
+}
+
+// Le quote di roccia e neve valgono in tutti i biomi, sotto decide il bioma
+export function getBlockType(
+    y: number,
+    surfaceHeight: number,
+    config: TerrainConfig = DEFAULT_TERRAIN_CONFIG,
+    biome: Biome = DEFAULT_BIOME
+): string {
+    if (y > surfaceHeight) return y <= config.waterLevel ? 'water' : 'air'
+    if (y === surfaceHeight) {
+        if (surfaceHeight > config.snowHeight) return 'snow'
+        if (surfaceHeight > config.rockHeight) return 'rock'
+        if (surfaceHeight <= config.beachHeight) return biome.beach
+        return biome.surface
+    }
+    if (surfaceHeight - y < 5) return biome.subsurface
+    return 'stone'
+}
+
+/**
+ * Versione del terreno di base: i mondi salvano solo le differenze da esso, quindi
+ * va incrementata a ogni cambiamento dell'output per stesso seed e parametri.
+ * 1: sola heightmap, 2: biomi, 3: decorazioni e modalità densità 3D.
+ */
+export const GENERATOR_VERSION = 3
+
+export interface TerrainGenerator {
+    seed: number
+    config: TerrainConfig
+    // Aree tenute libere dalle decorazioni
+    reserved: ReservedArea[]
+    height: number
+    // Quota della heightmap 2D, prima di grotte e sporgenze
+    getHeight: (x: number, z: number) => number
+    // Blocco solido più alto della colonna, grotte e sporgenze comprese
+    getSurfaceHeight: (x: number, z: number) => number
+    getBiome: (x: number, z: number) => Biome
+    getColumn: (x: number, z: number) => Uint8Array
+    generateChunk: (cx: number, cz: number) => ChunkData
+}
+
+// Generatore deterministico: stesso seed => stesso terreno, blocco per blocco
+export function createTerrainGenerator(
+    seed: number,
+    config: TerrainConfig = DEFAULT_TERRAIN_CONFIG,
+    reserved: ReservedArea[] = []
+): TerrainGenerator {
+    const noise2D = createNoise2D(createRandom(seed))
+    const getBiome = createBiomeSampler(seed)
+    const height = config.maxHeight
+
+    const getHeight = (x: number, z: number) => {
+        const noiseValue = getFractalNoise(noise2D, x / config.noiseScale, z / config.noiseScale, config)
+        return Math.floor(((noiseValue + 1) / 2) * config.maxHeight) + config.terrainOffset
+    }
+
+    const densityNoise = createNoise3D(createRandom(`${seed}:density`))
+    const caveNoiseA = createNoise3D(createRandom(`${seed}:caves-a`))
+    const caveNoiseB = createNoise3D(createRandom(`${seed}:caves-b`))
+    const overhangRange = Math.ceil(OVERHANG_RANGE * config.overhangStrength)
+    const caveWidth = CAVE_WIDTH * config.caveDensity
+
+    // Densità 3D: vicino alla superficie il rumore sposta il confine tra pieno e vuoto
+    const isDense = (x: number, y: number, z: number, surfaceHeight: number) => {
+        const distance = surfaceHeight - y
+        if (distance > overhangRange) return true
+        if (distance < -overhangRange) return false
+        const noise = densityNoise(x / OVERHANG_SCALE, y / OVERHANG_SCALE_Y, z / OVERHANG_SCALE)
+        return distance + noise * overhangRange >= 0
+    }
+
+    // Gallerie dove due campi di rumore sono entrambi vicini a zero
+    const isCave = (x: number, y: number, z: number) => {
+        if (caveWidth === 0 || y < CAVE_FLOOR) return false
+        return Math.abs(caveNoiseA(x / CAVE_SCALE, y / CAVE_SCALE_Y, z / CAVE_SCALE)) < caveWidth &&
+            Math.abs(caveNoiseB(x / CAVE_SCALE, y / CAVE_SCALE_Y, z / CAVE_SCALE)) < caveWidth
+    }
+
+    const getColumnTop = (surfaceHeight: number) => Math.min(height - 1, Math.max(surfaceHeight + overhangRange, config.waterLevel))
+
+    /**
+     * Riempie una colonna dall'alto: il primo blocco pieno è la superficie, i successivi
+     * sottosuolo e pietra. Le grotte restano asciutte, l'acqua riempie solo il vuoto all'aperto.
+     */
+    const fillColumn = (x: number, z: number, write: (y: number, id: number) => void) => {
+        const surfaceHeight = getHeight(x, z)
+        const biome = getBiome(x, z)
+        let depth = -1
+
+        for (let y = getColumnTop(surfaceHeight); y >= 0; y--) {
+            if (!isDense(x, y, z, surfaceHeight)) {
+                if (y <= config.waterLevel) write(y, WATER)
+                continue
+            }
+
+            depth++
+            if (isCave(x, y, z)) continue
+
+            const type = depth === 0
+                ? getBlockType(y, y, config, biome)
+                : depth < 5 ? biome.subsurface : 'stone'
+            write(y, getBlockId(type))
+        }
+    }
+
+    const getSurfaceHeight = (x: number, z: number) => {
+        const surfaceHeight = getHeight(x, z)
+        if (overhangRange === 0 && caveWidth === 0) return surfaceHeight
+
+        for (let y = getColumnTop(surfaceHeight); y > 0; y--) {
+            if (isDense(x, y, z, surfaceHeight) && !isCave(x, y, z)) return y
+        }
+        return 0
+    }
+
+    const decorate = createDecorator(seed, {
+        waterLevel: config.waterLevel,
+        maxHeight: height,
+        reserved,
+        getHeight: getSurfaceHeight,
+        getBiome,
+        getSurfaceType: (x, z, surfaceHeight) => getBlockType(surfaceHeight, surfaceHeight, config, getBiome(x, z))
+    })
+
+    // Le decorazioni occupano solo celle d'aria
+    const getColumn = (x: number, z: number) => {
+        const column = new Uint8Array(height)
+        fillColumn(x, z, (y, id) => { column[y] = id })
+        decorate(x, z, 1, 1, (_x, y, _z, type) => {
+            if (column[y] === AIR) column[y] = getBlockId(type)
+        })
+        return column
+    }
+
+    const generateChunk = (cx: number, cz: number) => {
+        const chunk = createChunk(cx, cz, height)
+        const originX = cx * CHUNK_SIZE
+        const originZ = cz * CHUNK_SIZE
+
+        for (let lz = 0; lz < CHUNK_SIZE; lz++) {
+            for (let lx = 0; lx < CHUNK_SIZE; lx++) {
+                fillColumn(originX + lx, originZ + lz, (y, id) => { chunk.blocks[blockIndex(lx, y, lz)] = id })
+            }
+        }
+
+        decorate(originX, originZ, CHUNK_SIZE, CHUNK_SIZE, (x, y, z, type) => {
+            const index = blockIndex(x - originX, y, z - originZ)
+            if (chunk.blocks[index] === AIR) chunk.blocks[index] = getBlockId(type)
+        })
+
+        return chunk
+    }
+
+    return { seed, config, reserved, height, getHeight, getSurfaceHeight, getBiome, getColumn, generateChunk }
+}
@@ -0,0 +1,61 @@
+// terrain.worker.ts
+// Generazione e meshing dei chunk fuori dal main thread
+
+import { createPaddedBlocks } from './chunks'
+import { buildChunkMesh, getMeshTransferables } from './mesher'
+import { WorkerRequest, WorkerResponse } from './protocol'
+import { TerrainConfig, TerrainGenerator, createTerrainGenerator, isSameTerrainConfig } from './terrain'
+import { ReservedArea, isSameReserved } from './decorations'
+
+let generator: TerrainGenerator | null = null
+
+function getGenerator(seed: number, config: TerrainConfig, reserved: ReservedArea[]): TerrainGenerator {
+    if (!generator || generator.seed !== seed || !isSameTerrainConfig(generator.config, config) ||
+        !isSameReserved(generator.reserved, reserved)) {
+        generator = createTerrainGenerator(seed, config, reserved)
+    }
+    return generator
+}
+
+function respond(response: WorkerResponse, transfer: ArrayBuffer[]) {
+    self.postMessage(response, { transfer })
+}
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+    const request = event.data
+
+    switch (request.type) {
+        case 'generate': {
+            const terrain = getGenerator(request.seed, request.config, request.reserved)
+            const chunk = terrain.generateChunk(request.cx, request.cz)
+            const padded = createPaddedBlocks(chunk, terrain.getColumn)
+            const mesh = buildChunkMesh(request.cx, request.cz, chunk.height, padded)
+
+            respond({
+                type: 'generated',
+                generation: request.generation,
+                cx: request.cx,
+                cz: request.cz,
+                height: chunk.height,
+                blocks: chunk.blocks,
+                mesh
+            }, [chunk.blocks.buffer as ArrayBuffer, ...getMeshTransferables(mesh)])
+            break
+        }
+        case 'mesh': {
+            const mesh = buildChunkMesh(request.cx, request.cz, request.height, request.padded, {
+                indices: request.colorIndices,
+                values: request.colorValues
+            })
+
+            respond({
+                type: 'meshed',
+                generation: request.generation,
+                cx: request.cx,
+                cz: request.cz,
+                mesh
+            }, getMeshTransferables(mesh))
+            break
+        }
+    }
+}
@@ -0,0 +1,140 @@
+// water.ts
+import { AIR, WATER } from './terrain'
+
+// Accesso ai blocchi per la simulazione: null fuori dai chunk modificabili (conta come parete)
+export interface WaterWorld {
+    getId: (x: number, y: number, z: number) => number | null
+    setWater: (x: number, y: number, z: number) => void
+    setAir: (x: number, y: number, z: number) => void
+    waterLevel: number
+}
+
+interface FlowCell {
+    x: number
+    y: number
+    z: number
+    // Blocchi percorsi in orizzontale dall'ultima caduta
+    spread: number
+}
+
+// Sopra il livello del mare l'acqua si allarga al massimo di questi blocchi dopo ogni caduta
+const MAX_SPREAD = 4
+// Celle aggiornate al massimo per passo, per non bloccare il frame
+const MAX_UPDATES_PER_STEP = 256
+
+const SIDES = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+
+/**
+ * Automa cellulare dell'acqua: si aggiornano solo le celle svegliate da una modifica.
+ * Una cella d'acqua cade nell'aria sottostante; appoggiata a qualcosa si allarga ai lati.
+ * Sotto il livello del mare si allarga senza limiti, così una buca vicino al mare si riempie.
+ *
+ * Le celle riempite dalla simulazione sono "correnti" e ricordano la distanza dalla sorgente:
+ * restano finché hanno acqua sopra o una vicina più vicina alla sorgente, altrimenti si
+ * svuotano. Tolta la sorgente, la corrente si ritira. Le altre celle d'acqua (mare, acqua
+ * piazzata dall'utente) sono sorgenti.
+ */
+export class WaterSimulation {
+    private active = new Map<string, FlowCell>()
+    private flowing = new Map<string, number>()
+
+    // Da chiamare dopo ogni cambio di blocco: la cella e le vicine possono ricominciare a scorrere
+    wake(x: number, y: number, z: number) {
+        this.add({ x, y, z, spread: 0 })
+        SIDES.forEach(([dx, dz]) => this.add({ x: x + dx, y, z: z + dz, spread: 0 }))
+        this.add({ x, y: y + 1, z, spread: 0 })
+        this.add({ x, y: y - 1, z, spread: 0 })
+    }
+
+    get isIdle() {
+        return this.active.size === 0
+    }
+
+    clear() {
+        this.active.clear()
+        this.flowing.clear()
+    }
+
+    // Acqua riempita dalla simulazione: non va salvata, si ricostruisce dalle sorgenti
+    isFlowing(x: number, y: number, z: number) {
+        return this.flowing.has(this.getKey({ x, y, z }))
+    }
+
+    // Un passo di simulazione; restituisce le celle riempite o svuotate
+    step(world: WaterWorld): { x: number; y: number; z: number }[] {
+        const cells = [...this.active.values()].slice(0, MAX_UPDATES_PER_STEP)
+        cells.forEach(cell => this.active.delete(this.getKey(cell)))
+
+        const changed: { x: number; y: number; z: number }[] = []
+        const filledKeys = new Set<string>()
+        const fill = (cell: FlowCell) => {
+            const key = this.getKey(cell)
+            world.setWater(cell.x, cell.y, cell.z)
+            this.flowing.set(key, cell.spread)
+            changed.push({ x: cell.x, y: cell.y, z: cell.z })
+            filledKeys.add(key)
+            this.add(cell)
+        }
+
+        cells.forEach(cell => {
+            const key = this.getKey(cell)
+            // Le celle appena riempite scorrono dal passo successivo
+            if (filledKeys.has(key)) return
+            if (world.getId(cell.x, cell.y, cell.z) !== WATER) {
+                // Una corrente sostituita da un blocco smette di esistere
+                this.flowing.delete(key)
+                return
+            }
+
+            const level = this.flowing.get(key)
+            if (level !== undefined && !this.isFed(world, cell, level)) {
+                world.setAir(cell.x, cell.y, cell.z)
+                this.flowing.delete(key)
+                changed.push({ x: cell.x, y: cell.y, z: cell.z })
+                this.wake(cell.x, cell.y, cell.z)
+                return
+            }
+
+            const below = world.getId(cell.x, cell.y - 1, cell.z)
+            if (below === AIR) {
+                fill({ x: cell.x, y: cell.y - 1, z: cell.z, spread: 0 })
+                // Quando la colonna sotto si riempie, la cella può allargarsi ai lati
+                this.add(cell)
+                return
+            }
+            // Fuori dal mondo o sopra una cella non caricata si resta fermi
+            if (below === null) return
+            const spread = level ?? cell.spread
+            if (cell.y > world.waterLevel && spread >= MAX_SPREAD) return
+
+            SIDES.forEach(([dx, dz]) => {
+                const x = cell.x + dx
+                const z = cell.z + dz
+                if (world.getId(x, cell.y, z) === AIR) fill({ x, y: cell.y, z, spread: spread + 1 })
+            })
+        })
+
+        return changed
+    }
+
+    // Una corrente è alimentata dall'acqua sopra o da una vicina più vicina alla sorgente
+    private isFed(world: WaterWorld, cell: FlowCell, level: number): boolean {
+        if (world.getId(cell.x, cell.y + 1, cell.z) === WATER) return true
+        return SIDES.some(([dx, dz]) => {
+            const x = cell.x + dx
+            const z = cell.z + dz
+            if (world.getId(x, cell.y, z) !== WATER) return false
+            return (this.flowing.get(this.getKey({ x, y: cell.y, z })) ?? 0) < level
+        })
+    }
+
+    private add(cell: FlowCell) {
+        const key = this.getKey(cell)
+        const current = this.active.get(key)
+        if (!current || current.spread > cell.spread) this.active.set(key, cell)
+    }
+
+    private getKey(cell: { x: number; y: number; z: number }) {
+        return `${cell.x},${cell.y},${cell.z}`
+    }
+}
@@ -0,0 +1,383 @@
+// world-file.ts
+import { BlockEdit, SignContent, SignData, SignStyle } from '../types/types'
+import { BLOCK_TYPES, DEFAULT_TERRAIN_CONFIG, GENERATOR_VERSION, TERRAIN_LIMITS, TerrainConfig } from './terrain'
+import { ReservedArea } from './decorations'
+
+/**
+ * File di un mondo: seed + parametri di generazione + differenze dei blocchi + cartelli.
+ *
+ * Formato JSON (`.json`):
+ *   { format: 'voxel-world', version: 4, seed, terrain: TerrainConfig, generatorVersion, reserved: ReservedArea[],
+ *     blocks: BlockEdit[], signs: SignData[] }
+ *
+ * Formato binario (`.vxw`, little endian):
+ *   4 byte   magic 'VXWB'
+ *   uint16   versione
+ *   uint32   lunghezza dell'header in byte
+ *   header   JSON UTF-8: { seed, terrain, generatorVersion, reserved, palette: { type, color? }[], signs }
+ *   uint32   numero di run
+ *   run      int32 x, uint16 y, int32 z, uint16 lunghezza, uint16 indice palette (14 byte)
+ * Una run copre `lunghezza` blocchi consecutivi lungo x con lo stesso tipo e colore.
+ *
+ * Versioni: le differenze valgono solo sul terreno di base da cui sono state calcolate.
+ * La 1 e la 2 non dicono se quel terreno aveva già biomi e decorazioni e si rifiutano;
+ * la 3 non aveva grotte e sporgenze (equivale a caveDensity e overhangStrength a 0).
+ */
+export const WORLD_FILE_FORMAT = 'voxel-world'
+export const WORLD_FILE_VERSION = 4
+const MIN_WORLD_FILE_VERSION = 3
+
+const BINARY_MAGIC = 'VXWB'
+const RUN_SIZE = 14
+const MAX_RUN_LENGTH = 0xffff
+
+export type WorldFileFormat = 'json' | 'binary'
+
+export interface WorldFile {
+    format: typeof WORLD_FILE_FORMAT
+    version: number
+    seed: number
+    terrain: TerrainConfig
+    generatorVersion: number
+    reserved: ReservedArea[]
+    blocks: BlockEdit[]
+    signs: SignData[]
+}
+
+interface PaletteEntry {
+    type: string
+    color?: string | number
+}
+
+// Errore di lettura di un file di mondo, con un messaggio da mostrare all'utente
+export class WorldFileError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'WorldFileError'
+    }
+}
+
+export function createWorldFile(
+    seed: number,
+    terrain: TerrainConfig,
+    reserved: ReservedArea[],
+    blocks: BlockEdit[],
+    signs: SignData[]
+): WorldFile {
+    return {
+        format: WORLD_FILE_FORMAT,
+        version: WORLD_FILE_VERSION,
+        seed,
+        terrain,
+        generatorVersion: GENERATOR_VERSION,
+        reserved,
+        blocks,
+        signs
+    }
+}
+
+export function encodeWorldFile(file: WorldFile, format: WorldFileFormat): string | Uint8Array {
+    return format === 'json' ? JSON.stringify(file, null, 2) : encodeBinary(file)
+}
+
+// Accetta sia il JSON sia il binario; lancia WorldFileError se il file non è valido
+export function decodeWorldFile(data: string | ArrayBuffer | Uint8Array): WorldFile {
+    if (typeof data === 'string') return decodeJson(data)
+
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+    if (readMagic(bytes) === BINARY_MAGIC) return decodeBinary(bytes)
+    return decodeJson(new TextDecoder().decode(bytes))
+}
+
+function decodeJson(text: string): WorldFile {
+    let parsed: unknown
+    try {
+        parsed = JSON.parse(text)
+    } catch {
+        throw new WorldFileError('Il file non è un JSON valido né un mondo binario')
+    }
+
+    if (!isObject(parsed) || parsed.format !== WORLD_FILE_FORMAT) {
+        throw new WorldFileError(`Formato sconosciuto: atteso '${WORLD_FILE_FORMAT}'`)
+    }
+    checkVersion(parsed.version)
+
+    return {
+        format: WORLD_FILE_FORMAT,
+        version: parsed.version as number,
+        seed: validateSeed(parsed.seed),
+        terrain: validateTerrain(parsed.terrain, parsed.version as number),
+        ...validateBaseline(parsed),
+        blocks: validateBlocks(parsed.blocks),
+        signs: validateSigns(parsed.signs)
+    }
+}
+
+function encodeBinary(file: WorldFile): Uint8Array {
+    // Ordinati per y, z, x: i blocchi consecutivi lungo x diventano una sola run
+    const blocks = [...file.blocks].sort((a, b) => a.y - b.y || a.z - b.z || a.x - b.x)
+    const palette: PaletteEntry[] = []
+    const paletteKeys = new Map<string, number>()
+    const runs: { x: number; y: number; z: number; length: number; entry: number }[] = []
+
+    blocks.forEach(block => {
+        const key = `${block.type}|${block.color ?? ''}`
+        if (!paletteKeys.has(key)) {
+            paletteKeys.set(key, palette.length)
+            palette.push(block.color !== undefined ? { type: block.type, color: block.color } : { type: block.type })
+        }
+        const entry = paletteKeys.get(key)!
+
+        const last = runs[runs.length - 1]
+        if (last && last.y === block.y && last.z === block.z && last.entry === entry &&
+            last.x + last.length === block.x && last.length < MAX_RUN_LENGTH) {
+            last.length++
+        } else {
+            runs.push({ x: block.x, y: block.y, z: block.z, length: 1, entry })
+        }
+    })
+
+    const header = new TextEncoder().encode(JSON.stringify({
+        seed: file.seed,
+        terrain: file.terrain,
+        generatorVersion: file.generatorVersion,
+        reserved: file.reserved,
+        palette,
+        signs: file.signs
+    }))
+
+    const bytes = new Uint8Array(4 + 2 + 4 + header.length + 4 + runs.length * RUN_SIZE)
+    const view = new DataView(bytes.buffer)
+    let offset = 0
+
+    for (let i = 0; i < 4; i++) bytes[offset++] = BINARY_MAGIC.charCodeAt(i)
+    view.setUint16(offset, file.version, true)
+    offset += 2
+    view.setUint32(offset, header.length, true)
+    offset += 4
+    bytes.set(header, offset)
+    offset += header.length
+    view.setUint32(offset, runs.length, true)
+    offset += 4
+
+    runs.forEach(run => {
+        view.setInt32(offset, run.x, true)
+        view.setUint16(offset + 4, run.y, true)
+        view.setInt32(offset + 6, run.z, true)
+        view.setUint16(offset + 10, run.length, true)
+        view.setUint16(offset + 12, run.entry, true)
+        offset += RUN_SIZE
+    })
+
+    return bytes
+}
+
+function decodeBinary(bytes: Uint8Array): WorldFile {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const truncated = () => new WorldFileError('File binario troncato')
+
+    if (bytes.length < 10) throw truncated()
+    const version = view.getUint16(4, true)
+    checkVersion(version)
+
+    const headerLength = view.getUint32(6, true)
+    const runsOffset = 10 + headerLength
+    if (bytes.length < runsOffset + 4) throw truncated()
+
+    let header: unknown
+    try {
+        header = JSON.parse(new TextDecoder().decode(bytes.subarray(10, runsOffset)))
+    } catch {
+        throw new WorldFileError('Header del file binario non valido')
+    }
+    if (!isObject(header)) throw new WorldFileError('Header del file binario non valido')
+
+    const palette = validatePalette(header.palette)
+    const runCount = view.getUint32(runsOffset, true)
+    if (bytes.length !== runsOffset + 4 + runCount * RUN_SIZE) throw truncated()
+
+    const blocks: BlockEdit[] = []
+    for (let i = 0, offset = runsOffset + 4; i < runCount; i++, offset += RUN_SIZE) {
+        const x = view.getInt32(offset, true)
+        const y = view.getUint16(offset + 4, true)
+        const z = view.getInt32(offset + 6, true)
+        const length = view.getUint16(offset + 10, true)
+        const entry = palette[view.getUint16(offset + 12, true)]
+        if (!entry) throw new WorldFileError(`Run ${i}: indice di palette non valido`)
+
+        for (let dx = 0; dx < length; dx++) {
+            blocks.push({ x: x + dx, y, z, ...entry })
+        }
+    }
+
+    return {
+        format: WORLD_FILE_FORMAT,
+        version,
+        seed: validateSeed(header.seed),
+        terrain: validateTerrain(header.terrain, version),
+        ...validateBaseline(header),
+        blocks,
+        signs: validateSigns(header.signs)
+    }
+}
+
+function readMagic(bytes: Uint8Array): string {
+    return bytes.length < 4 ? '' : String.fromCharCode(bytes[0], bytes[1], bytes[2], bytes[3])
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isInteger(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value)
+}
+
+function checkVersion(version: unknown) {
+    if (!isInteger(version) || version < 1) {
+        throw new WorldFileError('Versione del file mancante o non valida')
+    }
+    if (version < MIN_WORLD_FILE_VERSION) {
+        throw new WorldFileError(`Versione ${version} non più supportata: il terreno di base è cambiato e le modifiche non si possono ricostruire`)
+    }
+    if (version > WORLD_FILE_VERSION) {
+        throw new WorldFileError(`Versione ${version} non supportata (massima ${WORLD_FILE_VERSION})`)
+    }
+}
+
+function validateSeed(seed: unknown): number {
+    if (!isInteger(seed)) throw new WorldFileError('Seed mancante o non valido')
+    return seed >>> 0
+}
+
+function validateTerrain(terrain: unknown, version: number): TerrainConfig {
+    if (!isObject(terrain)) throw new WorldFileError('Parametri di generazione mancanti')
+
+    const source: Record<string, unknown> = version < 4 ? { caveDensity: 0, overhangStrength: 0, ...terrain } : terrain
+    const keys = Object.keys(DEFAULT_TERRAIN_CONFIG) as (keyof TerrainConfig)[]
+    keys.forEach(key => {
+        const value = source[key]
+        if (typeof value !== 'number' || !Number.isFinite(value)) {
+            throw new WorldFileError(`Parametro di generazione '${key}' mancante o non valido`)
+        }
+        const { min, max, integer } = TERRAIN_LIMITS[key]
+        if (value < min || value > max || (integer && !Number.isInteger(value))) {
+            throw new WorldFileError(`Parametro di generazione '${key}' fuori intervallo (${min}–${max}${integer ? ', intero' : ''})`)
+        }
+    })
+
+    return Object.fromEntries(keys.map(key => [key, source[key]])) as unknown as TerrainConfig
+}
+
+// Terreno di base a cui si riferiscono le differenze dei blocchi
+function validateBaseline(source: Record<string, unknown>): Pick<WorldFile, 'generatorVersion' | 'reserved'> {
+    if (source.generatorVersion !== GENERATOR_VERSION) {
+        throw new WorldFileError(`Generatore del terreno ${String(source.generatorVersion)} non supportato (atteso ${GENERATOR_VERSION})`)
+    }
+    const { reserved } = source
+    if (!Array.isArray(reserved) || !reserved.every(area => isObject(area) && isInteger(area.x) && isInteger(area.z))) {
+        throw new WorldFileError('Aree riservate mancanti o non valide')
+    }
+    return { generatorVersion: GENERATOR_VERSION, reserved: reserved.map(area => ({ x: area.x, z: area.z })) }
+}
+
+function validateBlockState(value: unknown, label: string): PaletteEntry {
+    if (!isObject(value) || typeof value.type !== 'string' || !BLOCK_TYPES.includes(value.type)) {
+        throw new WorldFileError(`${label}: tipo di blocco sconosciuto`)
+    }
+    if (value.color !== undefined && typeof value.color !== 'string' && typeof value.color !== 'number') {
+        throw new WorldFileError(`${label}: colore non valido`)
+    }
+    return value.color !== undefined
+        ? { type: value.type, color: value.color as string | number }
+        : { type: value.type }
+}
+
+function validatePalette(palette: unknown): PaletteEntry[] {
+    if (!Array.isArray(palette)) throw new WorldFileError('Palette dei blocchi mancante')
+    return palette.map((entry, i) => validateBlockState(entry, `Palette ${i}`))
+}
+
+function validateBlocks(blocks: unknown): BlockEdit[] {
+    if (!Array.isArray(blocks)) throw new WorldFileError('Elenco dei blocchi mancante')
+
+    return blocks.map((block, i) => {
+        if (!isObject(block) || !isInteger(block.x) || !isInteger(block.y) || !isInteger(block.z) || block.y < 0) {
+            throw new WorldFileError(`Blocco ${i}: posizione non valida`)
+        }
+        return { x: block.x, y: block.y, z: block.z, ...validateBlockState(block, `Blocco ${i}`) }
+    })
+}
+
+// Scala massima di un cartello e lato massimo del pannello
+const MAX_SIGN_SCALE = 10
+const MAX_PANEL_SIZE = 32
+const SIGN_STYLE_COLORS = ['titleColor', 'bodyColor', 'footerColor', 'backgroundColor', 'fontFamily'] as const
+
+function isVector3(value: unknown): value is [number, number, number] {
+    return Array.isArray(value) && value.length === 3 && value.every(v => typeof v === 'number' && Number.isFinite(v))
+}
+
+function isInRange(value: unknown, min: number, max: number): value is number {
+    return typeof value === 'number' && Number.isFinite(value) && value > min && value <= max
+}
+
+function validateSignContent(content: unknown, label: string): SignContent {
+    if (!isObject(content)) throw new WorldFileError(`${label}: contenuto mancante`)
+    if (typeof content.title !== 'string') throw new WorldFileError(`${label}: titolo mancante o non valido`)
+
+    const { body } = content
+    if (typeof body !== 'string' && !(Array.isArray(body) && body.every(line => typeof line === 'string'))) {
+        throw new WorldFileError(`${label}: il testo deve essere una stringa o una lista di stringhe`)
+    }
+    if (content.footer !== undefined && typeof content.footer !== 'string') {
+        throw new WorldFileError(`${label}: footer non valido`)
+    }
+
+    return content.footer !== undefined
+        ? { title: content.title, body, footer: content.footer }
+        : { title: content.title, body }
+}
+
+function validateSignStyle(style: unknown, label: string): SignStyle {
+    if (!isObject(style)) throw new WorldFileError(`${label}: stile non valido`)
+
+    const result: SignStyle = {}
+    SIGN_STYLE_COLORS.forEach(key => {
+        const value = style[key]
+        if (value === undefined) return
+        if (typeof value !== 'string') throw new WorldFileError(`${label}: '${key}' non valido`)
+        result[key] = value
+    })
+    ;(['panelWidth', 'panelHeight'] as const).forEach(key => {
+        const value = style[key]
+        if (value === undefined) return
+        if (!isInRange(value, 0, MAX_PANEL_SIZE)) throw new WorldFileError(`${label}: '${key}' fuori intervallo`)
+        result[key] = value
+    })
+    return result
+}
+
+function validateSigns(signs: unknown): SignData[] {
+    if (signs === undefined) return []
+    if (!Array.isArray(signs)) throw new WorldFileError('Elenco dei cartelli non valido')
+
+    return signs.map((sign, i) => {
+        const label = `Cartello ${i}`
+        if (!isObject(sign) || typeof sign.id !== 'string' || !isVector3(sign.position)) {
+            throw new WorldFileError(`${label}: dati non validi`)
+        }
+        if (sign.rotation !== undefined && !isVector3(sign.rotation)) {
+            throw new WorldFileError(`${label}: rotazione non valida`)
+        }
+        if (sign.scale !== undefined && !isInRange(sign.scale, 0, MAX_SIGN_SCALE)) {
+            throw new WorldFileError(`${label}: scala fuori intervallo`)
+        }
+
+        const result: SignData = { id: sign.id, position: sign.position, content: validateSignContent(sign.content, label) }
+        if (sign.rotation !== undefined) result.rotation = sign.rotation
+        if (sign.scale !== undefined) result.scale = sign.scale
+        if (sign.style !== undefined) result.style = validateSignStyle(sign.style, label)
+        return result
+    })
+}